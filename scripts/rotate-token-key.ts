@@ -0,0 +1,34 @@
+/**
+ * Re-encrypts stored OAuth tokens and webhook secrets under the current TOKEN_ENCRYPTION_KEY.
+ *
+ * Usage:
+ *   npm run rotate-key -- --generate
+ *     Print a new random key.
+ *   TOKEN_ENCRYPTION_KEY=<new> TOKEN_ENCRYPTION_KEY_PREVIOUS=<old> npm run rotate-key
+ *     Re-wrap every token's data key with <new>. Plaintext tokens are encrypted as well.
+ */
+import dotenv from "dotenv";
+
+import { checkEncryptionKey, generateKey } from "../server/tokenCrypto";
+import { rotateTokenKeys } from "../server/tokenStore";
+
+dotenv.config({ path: [".env.local", ".env"] });
+
+if (process.argv.includes("--generate")) {
+  console.log(generateKey());
+  process.exit(0);
+}
+
+if (!process.env.TOKEN_ENCRYPTION_KEY) {
+  console.error("TOKEN_ENCRYPTION_KEY must be set to the new key.");
+  process.exit(1);
+}
+
+try {
+  checkEncryptionKey();
+  const changed = rotateTokenKeys();
+  console.log(`Rotated ${changed} connection(s) and webhook(s) to the active key.`);
+} catch (error: any) {
+  console.error("Key rotation failed:", error.message);
+  process.exit(1);
+}
@@ -1,323 +1,547 @@
 import express from "express";
 import { createServer as createViteServer } from "vite";
-import Database from "better-sqlite3";
 import path from "path";
 import { fileURLToPath } from "url";
 import dotenv from "dotenv";
 
-dotenv.config();
+import { db } from "./server/db";
+import { listTools } from "./server/tools";
+import { runAndRecord, AgentEvent } from "./server/agent";
+import { checkEncryptionKey } from "./server/tokenCrypto";
+import { getModelProvider } from "./server/llm";
+import { saveConnection } from "./server/tokenManager";
+import { appOrigin, consumeOAuthState, createOAuthState } from "./server/oauthState";
+import {
+  buildAuthorizeUrl,
+  exchangeCode,
+  getProvider,
+  isConfigured,
+  listProviders,
+  resolveAccount,
+} from "./server/providers";
+import {
+  AuthError,
+  authenticate,
+  createSession,
+  destroySession,
+  getIdentityProvider,
+  hasUsers,
+  loginUser,
+  registerUser,
+  requireUser,
+} from "./server/auth";
+import { encryptPlaintextTokens } from "./server/tokenStore";
+import { resolveApproval } from "./server/approvals";
+import { listAuditEntries, writeAuditExport } from "./server/audit";
+import { getUsage } from "./server/usage";
+import {
+  createTemplate,
+  deleteTemplate,
+  exportTemplates,
+  importTemplates,
+  listTemplates,
+  TemplateError,
+  updateTemplate,
+} from "./server/templates";
+import {
+  createWebhook,
+  deleteWebhook,
+  listWebhookRuns,
+  listWebhooks,
+  receiveWebhook,
+  recoverWebhookRuns,
+  rotateWebhookSecret,
+  updateWebhook,
+  WebhookError,
+} from "./server/webhooks";
+import {
+  createScheduledTask,
+  deleteScheduledTask,
+  listScheduledRuns,
+  listScheduledTasks,
+  runScheduledTaskNow,
+  ScheduleError,
+  setScheduledTaskEnabled,
+  startScheduler,
+  updateScheduledTask,
+} from "./server/scheduler";
+import {
+  createConversation,
+  deleteConversation,
+  getConversation,
+  getMessages,
+  listConversations,
+  renameConversation,
+  titleFromMessage,
+} from "./server/conversations";
+import { clearMemories, createMemory, deleteMemory, listMemories, MemoryError, updateMemory } from "./server/memory";
+import { createProfile, deleteProfile, getProfile, listProfiles, ProfileError, updateProfile } from "./server/profiles";
+
+dotenv.config({ path: [".env.local", ".env"] });
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const db = new Database("nexus.db");
+// Popup page that reports a finished connection to the app window, and only to the app's own origin
+function oauthSuccessPage(provider: string, label: string) {
+  const message = JSON.stringify({ type: "OAUTH_AUTH_SUCCESS", provider });
+  return `
+    <html>
+      <body>
+        <script>
+          if (window.opener) {
+            window.opener.postMessage(${message}, ${JSON.stringify(appOrigin())});
+            window.close();
+          } else {
+            window.location.href = '/';
+          }
+        </script>
+        <p>${label} connected successfully. Closing window...</p>
+      </body>
+    </html>
+  `;
+}
+
+type StatusError = new (...args: any[]) => Error & { status: number };
 
-// Initialize DB
-db.exec(`
-  CREATE TABLE IF NOT EXISTS connections (
-    id TEXT PRIMARY KEY,
-    provider TEXT NOT NULL,
-    access_token TEXT NOT NULL,
-    refresh_token TEXT,
-    expires_at INTEGER,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  )
-`);
+// Wrap a route so errors of the given type answer with their own status and message, and anything else with a 500
+function handleErrors(errorType: StatusError) {
+  return (handler: express.RequestHandler): express.RequestHandler => async (req, res, next) => {
+    try {
+      await handler(req, res, next);
+    } catch (error: any) {
+      if (error instanceof errorType) return res.status(error.status).json({ error: error.message });
+      console.error(`${req.method} ${req.path} failed:`, error);
+      res.status(500).json({ error: error.message });
+    }
+  };
+}
 
 async function startServer() {
+  checkEncryptionKey();
+  // Fail fast on an unknown LLM_PROVIDER instead of on the first chat request
+  console.log(`Using the ${getModelProvider().name} model backend.`);
+  const migrated = encryptPlaintextTokens();
+  if (migrated) console.log(`Encrypted secrets for ${migrated} existing connection(s) and webhook(s).`);
+
   const app = express();
   const PORT = 3000;
 
+  // Webhook deliveries are signed over the raw body and come from other services, not signed-in users,
+  // so they are handled before the JSON parser and session checks
+  app.post("/api/webhooks/:hookId", express.raw({ type: "*/*", limit: "1mb" }), (req, res) => {
+    try {
+      const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const result = receiveWebhook(req.params.hookId, req.headers, body);
+      res.status(result.status).json(result.body);
+    } catch (error: any) {
+      if (error instanceof WebhookError) return res.status(error.status).json({ error: error.message });
+      console.error("Webhook error:", error);
+      res.status(500).json({ error: "Webhook failed" });
+    }
+  });
+
   app.use(express.json());
+  app.use("/api", authenticate);
+
+  // Everything else under /api needs a signed-in user
+  const publicRoutes = new Set(["/health", "/auth/me", "/auth/config", "/auth/login", "/auth/register", "/auth/logout"]);
+  app.use("/api", (req, res, next) => (publicRoutes.has(req.path) ? next() : requireUser(req, res, next)));
 
   // API Routes
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok" });
   });
 
+  // Accounts and sessions
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Not signed in" });
+    res.json(req.user);
+  });
+
+  app.get("/api/auth/config", (req, res) => {
+    const provider = getIdentityProvider();
+    res.json({
+      provider: provider.name,
+      passwordLogin: !!provider.login,
+      // The first account can always be created so a fresh server isn't locked out
+      allowsRegistration: !!provider.login && (provider.allowsRegistration || !hasUsers()),
+    });
+  });
+
+  app.post("/api/auth/register", (req, res) => {
+    try {
+      const { username, password, displayName } = req.body;
+      const user = registerUser(username, password, displayName);
+      createSession(res, user.id);
+      res.status(201).json(user);
+    } catch (error: any) {
+      if (error instanceof AuthError) return res.status(error.status).json({ error: error.message });
+      console.error("Auth error:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const user = await loginUser(req.body);
+      createSession(res, user.id);
+      res.json(user);
+    } catch (error: any) {
+      if (error instanceof AuthError) return res.status(error.status).json({ error: error.message });
+      console.error("Auth error:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    destroySession(req, res);
+    res.json({ success: true });
+  });
+
   // Get all connections
   app.get("/api/connections", (req, res) => {
-    const connections = db.prepare("SELECT id, provider, created_at FROM connections").all();
+    const connections = db
+      .prepare("SELECT id, provider, account, status, created_at FROM connections WHERE user_id = ? ORDER BY created_at")
+      .all(req.user!.id);
     res.json(connections);
   });
 
-  // GitHub OAuth URL
-  app.get("/api/auth/github/url", (req, res) => {
-    const clientId = process.env.GITHUB_CLIENT_ID;
-    if (!clientId) {
-      return res.status(500).json({ error: "GITHUB_CLIENT_ID not configured" });
+  // OAuth providers available to the Connectors sidebar
+  app.get("/api/providers", (req, res) => {
+    res.json(listProviders().map((provider) => ({
+      id: provider.id,
+      label: provider.label,
+      description: provider.description,
+      icon: provider.icon,
+      configured: isConfigured(provider),
+      refresh: provider.refresh,
+    })));
+  });
+
+  // OAuth authorize URL for any configured provider
+  app.get("/api/auth/:provider/url", (req, res) => {
+    const provider = getProvider(req.params.provider);
+    if (!provider) return res.status(404).json({ error: "Unknown provider" });
+    if (!isConfigured(provider)) {
+      return res.status(500).json({ error: `${provider.id.toUpperCase()}_CLIENT_ID not configured` });
     }
-    const redirectUri = `${process.env.APP_URL}/api/auth/github/callback`;
-    const url = `https://github.com/login/oauth/authorize?client_id=${clientId}&redirect_uri=${redirectUri}&scope=repo,user`;
-    res.json({ url });
+
+    const { state, codeChallenge } = createOAuthState(req, provider.id, provider.pkce);
+    res.json({ url: buildAuthorizeUrl(provider, state, codeChallenge) });
   });
 
-  // GitHub OAuth Callback
-  app.get("/api/auth/github/callback", async (req, res) => {
-    const { code } = req.query;
-    if (!code) return res.status(400).send("No code provided");
+  // OAuth callback for any configured provider
+  app.get("/api/auth/:provider/callback", async (req, res) => {
+    const provider = getProvider(req.params.provider);
+    if (!provider) return res.status(404).send("Unknown provider");
 
-    try {
-      const tokenResponse = await fetch("https://github.com/login/oauth/access_token", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-        },
-        body: JSON.stringify({
-          client_id: process.env.GITHUB_CLIENT_ID,
-          client_secret: process.env.GITHUB_CLIENT_SECRET,
-          code,
-        }),
-      });
+    const { code, state } = req.query;
+    if (!code || typeof code !== "string") return res.status(400).send("No code provided");
+
+    const codeVerifier = consumeOAuthState(req, provider.id, state);
+    if (codeVerifier === undefined) return res.status(400).send("Invalid or expired OAuth state. Please try connecting again.");
 
-      const data = await tokenResponse.json();
-      if (data.error) throw new Error(data.error_description || data.error);
+    try {
+      const data = await exchangeCode(provider, code, codeVerifier);
+      const account = await resolveAccount(provider, data);
 
       // Store connection
-      db.prepare(`
-        INSERT OR REPLACE INTO connections (id, provider, access_token)
-        VALUES (?, ?, ?)
-      `).run("github", "github", data.access_token);
-
-      res.send(`
-        <html>
-          <body>
-            <script>
-              if (window.opener) {
-                window.opener.postMessage({ type: 'OAUTH_AUTH_SUCCESS', provider: 'github' }, '*');
-                window.close();
-              } else {
-                window.location.href = '/';
-              }
-            </script>
-            <p>GitHub connected successfully. Closing window...</p>
-          </body>
-        </html>
-      `);
+      saveConnection(req.user!.id, provider.id, account, {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+        expiresAt: data.expires_in ? Date.now() + (data.expires_in * 1000) : null,
+        scopes: data.scope,
+      });
+
+      res.send(oauthSuccessPage(provider.id, provider.label));
     } catch (error: any) {
-      console.error("GitHub OAuth error:", error);
+      console.error(`${provider.label} OAuth error:`, error);
       res.status(500).send(`Auth failed: ${error.message}`);
     }
   });
 
-  // Google OAuth URL
-  app.get("/api/auth/google/url", (req, res) => {
-    const clientId = process.env.GOOGLE_CLIENT_ID;
-    if (!clientId) {
-      return res.status(500).json({ error: "GOOGLE_CLIENT_ID not configured" });
+  // Disconnect provider
+  app.post("/api/connections/:id/disconnect", (req, res) => {
+    const result = db.prepare("DELETE FROM connections WHERE id = ? AND user_id = ?").run(req.params.id, req.user!.id);
+    if (!result.changes) return res.status(404).json({ error: "Connection not found" });
+    res.json({ success: true });
+  });
+
+  // Tool catalog used by the client to build function declarations
+  app.get("/api/tools", (req, res) => {
+    res.json(listTools().map(({ name, description, provider, parameters, scopes, mutating }) => ({
+      name,
+      description,
+      provider,
+      parameters,
+      scopes,
+      mutating,
+    })));
+  });
+
+  // Today's model and tool usage against the configured limits
+  app.get("/api/usage", (req, res) => {
+    res.json(getUsage(req.user!.id));
+  });
+
+  // Audit log of tool calls; ?export=csv|json downloads every entry matching the filters as a file
+  app.get("/api/audit", (req, res) => {
+    const param = (name: string) => (typeof req.query[name] === "string" ? (req.query[name] as string) : undefined);
+    const filters = {
+      tool: param("tool"),
+      provider: param("provider"),
+      status: param("status"),
+      conversationId: param("conversation"),
+      since: param("since"),
+      until: param("until"),
+    };
+
+    const format = param("export");
+    if (format === "csv" || format === "json") {
+      res.setHeader("Content-Disposition", `attachment; filename="nexus-audit.${format}"`);
+      res.type(format === "csv" ? "text/csv" : "application/json");
+      writeAuditExport(req.user!.id, filters, format, (chunk) => res.write(chunk));
+      return res.end();
     }
-    const redirectUri = `${process.env.APP_URL}/api/auth/google/callback`;
-    const scopes = [
-      "https://www.googleapis.com/auth/gmail.send",
-      "https://www.googleapis.com/auth/userinfo.email",
-      "openid"
-    ].join(" ");
-    
-    const url = `https://accounts.google.com/o/oauth2/v2/auth?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code&scope=${encodeURIComponent(scopes)}&access_type=offline&prompt=consent`;
-    res.json({ url });
-  });
-
-  // Google OAuth Callback
-  app.get("/api/auth/google/callback", async (req, res) => {
-    const { code } = req.query;
-    if (!code) return res.status(400).send("No code provided");
+    res.json(listAuditEntries(req.user!.id, {
+      ...filters,
+      limit: Number(param("limit")) || undefined,
+      offset: Number(param("offset")) || undefined,
+    }));
+  });
 
-    try {
-      const tokenResponse = await fetch("https://oauth2.googleapis.com/token", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          client_id: process.env.GOOGLE_CLIENT_ID,
-          client_secret: process.env.GOOGLE_CLIENT_SECRET,
-          code,
-          grant_type: "authorization_code",
-          redirect_uri: `${process.env.APP_URL}/api/auth/google/callback`,
-        }),
-      });
+  // Conversations
+  app.get("/api/conversations", (req, res) => {
+    res.json(listConversations(req.user!.id));
+  });
 
-      const data = await tokenResponse.json();
-      if (data.error) throw new Error(data.error_description || data.error);
+  app.post("/api/conversations", (req, res) => {
+    const { title } = req.body;
+    res.status(201).json(createConversation(req.user!.id, typeof title === "string" && title.trim() ? title.trim() : undefined));
+  });
 
-      // Store connection
-      db.prepare(`
-        INSERT OR REPLACE INTO connections (id, provider, access_token, refresh_token, expires_at)
-        VALUES (?, ?, ?, ?, ?)
-      `).run("google", "google", data.access_token, data.refresh_token, Date.now() + (data.expires_in * 1000));
-
-      res.send(`
-        <html>
-          <body>
-            <script>
-              if (window.opener) {
-                window.opener.postMessage({ type: 'OAUTH_AUTH_SUCCESS', provider: 'google' }, '*');
-                window.close();
-              } else {
-                window.location.href = '/';
-              }
-            </script>
-            <p>Google connected successfully. Closing window...</p>
-          </body>
-        </html>
-      `);
-    } catch (error: any) {
-      console.error("Google OAuth error:", error);
-      res.status(500).send(`Auth failed: ${error.message}`);
+  app.patch("/api/conversations/:id", (req, res) => {
+    const { title } = req.body;
+    if (!title || typeof title !== "string" || !title.trim()) {
+      return res.status(400).json({ error: "title is required" });
     }
+    const conversation = renameConversation(req.user!.id, req.params.id, title.trim());
+    if (!conversation) return res.status(404).json({ error: "Conversation not found" });
+    res.json(conversation);
   });
 
-  // Notion OAuth URL
-  app.get("/api/auth/notion/url", (req, res) => {
-    const clientId = process.env.NOTION_CLIENT_ID;
-    if (!clientId) {
-      return res.status(500).json({ error: "NOTION_CLIENT_ID not configured" });
+  app.delete("/api/conversations/:id", (req, res) => {
+    if (!deleteConversation(req.user!.id, req.params.id)) return res.status(404).json({ error: "Conversation not found" });
+    res.json({ success: true });
+  });
+
+  app.get("/api/conversations/:id/messages", (req, res) => {
+    if (!getConversation(req.user!.id, req.params.id)) return res.status(404).json({ error: "Conversation not found" });
+    res.json(getMessages(req.params.id));
+  });
+
+  // Answer a pending approval for a mutating tool call
+  app.post("/api/agent/approvals/:id", (req, res) => {
+    const { approved, args, alwaysAllow } = req.body;
+    if (typeof approved !== "boolean") {
+      return res.status(400).json({ error: "approved must be a boolean" });
+    }
+    if (args !== undefined && (typeof args !== "object" || args === null || Array.isArray(args))) {
+      return res.status(400).json({ error: "args must be an object" });
     }
-    const redirectUri = `${process.env.APP_URL}/api/auth/notion/callback`;
-    const url = `https://api.notion.com/v1/oauth/authorize?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code&owner=user`;
-    res.json({ url });
+    if (!resolveApproval(req.params.id, req.user!.id, { approved, args, alwaysAllow: !!alwaysAllow })) {
+      return res.status(404).json({ error: "Approval not found or already answered" });
+    }
+    res.json({ success: true });
   });
 
-  // Notion OAuth Callback
-  app.get("/api/auth/notion/callback", async (req, res) => {
-    const { code } = req.query;
-    if (!code) return res.status(400).send("No code provided");
+  // Prompt templates, run from the input bar as slash commands
+  const templateRoute = handleErrors(TemplateError);
 
-    try {
-      const auth = Buffer.from(`${process.env.NOTION_CLIENT_ID}:${process.env.NOTION_CLIENT_SECRET}`).toString("base64");
-      const tokenResponse = await fetch("https://api.notion.com/v1/oauth/token", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Basic ${auth}`,
-        },
-        body: JSON.stringify({
-          grant_type: "authorization_code",
-          code,
-          redirect_uri: `${process.env.APP_URL}/api/auth/notion/callback`,
-        }),
-      });
+  app.get("/api/templates", (req, res) => {
+    res.json(listTemplates(req.user!.id));
+  });
 
-      const data = await tokenResponse.json();
-      if (data.error) throw new Error(data.error_description || data.error);
+  app.post("/api/templates", templateRoute((req, res) => {
+    res.status(201).json(createTemplate(req.user!.id, req.body));
+  }));
 
-      // Store connection
-      db.prepare(`
-        INSERT OR REPLACE INTO connections (id, provider, access_token)
-        VALUES (?, ?, ?)
-      `).run("notion", "notion", data.access_token);
-
-      res.send(`
-        <html>
-          <body>
-            <script>
-              if (window.opener) {
-                window.opener.postMessage({ type: 'OAUTH_AUTH_SUCCESS', provider: 'notion' }, '*');
-                window.close();
-              } else {
-                window.location.href = '/';
-              }
-            </script>
-            <p>Notion connected successfully. Closing window...</p>
-          </body>
-        </html>
-      `);
-    } catch (error: any) {
-      console.error("Notion OAuth error:", error);
-      res.status(500).send(`Auth failed: ${error.message}`);
-    }
+  app.get("/api/templates/export", (req, res) => {
+    res.setHeader("Content-Disposition", 'attachment; filename="nexus-templates.json"');
+    res.json(exportTemplates(req.user!.id));
   });
 
-  // Disconnect provider
-  app.post("/api/connections/:id/disconnect", (req, res) => {
-    db.prepare("DELETE FROM connections WHERE id = ?").run(req.params.id);
+  // Body is a template pack; ?overwrite=true replaces templates with the same name
+  app.post("/api/templates/import", templateRoute((req, res) => {
+    res.json(importTemplates(req.user!.id, req.body, req.query.overwrite === "true"));
+  }));
+
+  app.patch("/api/templates/:id", templateRoute((req, res) => {
+    res.json(updateTemplate(req.user!.id, req.params.id, req.body));
+  }));
+
+  app.delete("/api/templates/:id", (req, res) => {
+    if (!deleteTemplate(req.user!.id, req.params.id)) return res.status(404).json({ error: "Template not found" });
+    res.json({ success: true });
+  });
+
+  // What the agent remembers about the user across conversations
+  const memoryRoute = handleErrors(MemoryError);
+
+  app.get("/api/memories", (req, res) => {
+    res.json(listMemories(req.user!.id));
+  });
+
+  app.post("/api/memories", memoryRoute((req, res) => {
+    const { memory, created } = createMemory(req.user!.id, req.body.content);
+    res.status(created ? 201 : 200).json(memory);
+  }));
+
+  app.patch("/api/memories/:id", memoryRoute((req, res) => {
+    res.json(updateMemory(req.user!.id, req.params.id, req.body.content));
+  }));
+
+  app.delete("/api/memories/:id", (req, res) => {
+    if (!deleteMemory(req.user!.id, req.params.id)) return res.status(404).json({ error: "Memory not found" });
     res.json({ success: true });
   });
 
-  // Tool Execution API
-  app.post("/api/tools/execute", async (req, res) => {
-    const { tool, args } = req.body;
-    
+  app.delete("/api/memories", (req, res) => {
+    res.json({ deleted: clearMemories(req.user!.id) });
+  });
+
+  // Agent profiles: named system prompt, model and tool selections picked per chat
+  const profileRoute = handleErrors(ProfileError);
+
+  app.get("/api/profiles", (req, res) => {
+    res.json(listProfiles(req.user!.id));
+  });
+
+  app.post("/api/profiles", profileRoute((req, res) => {
+    res.status(201).json(createProfile(req.user!.id, req.body));
+  }));
+
+  app.patch("/api/profiles/:id", profileRoute((req, res) => {
+    res.json(updateProfile(req.user!.id, req.params.id, req.body));
+  }));
+
+  app.delete("/api/profiles/:id", (req, res) => {
+    if (!deleteProfile(req.user!.id, req.params.id)) return res.status(404).json({ error: "Profile not found" });
+    res.json({ success: true });
+  });
+
+  // Scheduled tasks: saved prompts the agent runs on a cron schedule
+  const scheduleRoute = handleErrors(ScheduleError);
+
+  app.get("/api/schedules", (req, res) => {
+    res.json(listScheduledTasks(req.user!.id));
+  });
+
+  app.post("/api/schedules", scheduleRoute((req, res) => {
+    res.status(201).json(createScheduledTask(req.user!.id, req.body));
+  }));
+
+  app.patch("/api/schedules/:id", scheduleRoute((req, res) => {
+    res.json(updateScheduledTask(req.user!.id, req.params.id, req.body));
+  }));
+
+  app.delete("/api/schedules/:id", (req, res) => {
+    if (!deleteScheduledTask(req.user!.id, req.params.id)) return res.status(404).json({ error: "Scheduled task not found" });
+    res.json({ success: true });
+  });
+
+  app.post("/api/schedules/:id/pause", scheduleRoute((req, res) => {
+    res.json(setScheduledTaskEnabled(req.user!.id, req.params.id, false));
+  }));
+
+  app.post("/api/schedules/:id/resume", scheduleRoute((req, res) => {
+    res.json(setScheduledTaskEnabled(req.user!.id, req.params.id, true));
+  }));
+
+  // Starts a run and answers straight away; poll the runs to see how it went
+  app.post("/api/schedules/:id/run", scheduleRoute((req, res) => {
+    res.status(202).json(runScheduledTaskNow(req.user!.id, req.params.id));
+  }));
+
+  app.get("/api/schedules/runs", (req, res) => {
+    const taskId = typeof req.query.task === "string" ? req.query.task : undefined;
+    res.json(listScheduledRuns(req.user!.id, taskId, Number(req.query.limit) || undefined));
+  });
+
+  // Webhooks: events from other services that start agent runs (deliveries are received above)
+  const webhookRoute = handleErrors(WebhookError);
+
+  app.get("/api/webhooks", (req, res) => {
+    res.json(listWebhooks(req.user!.id));
+  });
+
+  app.post("/api/webhooks", webhookRoute((req, res) => {
+    res.status(201).json(createWebhook(req.user!.id, req.body));
+  }));
+
+  app.patch("/api/webhooks/:id", webhookRoute((req, res) => {
+    res.json(updateWebhook(req.user!.id, req.params.id, req.body));
+  }));
+
+  app.delete("/api/webhooks/:id", (req, res) => {
+    if (!deleteWebhook(req.user!.id, req.params.id)) return res.status(404).json({ error: "Webhook not found" });
+    res.json({ success: true });
+  });
+
+  app.post("/api/webhooks/:id/secret", webhookRoute((req, res) => {
+    res.json(rotateWebhookSecret(req.user!.id, req.params.id, req.body.secret));
+  }));
+
+  // Each run's conversation_id also filters /api/audit down to the tool calls it made
+  app.get("/api/webhooks/runs", (req, res) => {
+    const webhookId = typeof req.query.webhook === "string" ? req.query.webhook : undefined;
+    res.json(listWebhookRuns(req.user!.id, webhookId, Number(req.query.limit) || undefined));
+  });
+
+  // Agent chat, streamed to the client as Server-Sent Events
+  app.post("/api/agent/chat", async (req, res) => {
+    const { message, conversationId, profileId } = req.body;
+    if (!message || typeof message !== "string") {
+      return res.status(400).json({ error: "message is required" });
+    }
+
+    const userId = req.user!.id;
+    const profile = profileId ? getProfile(userId, profileId) : undefined;
+    if (profileId && !profile) return res.status(404).json({ error: "Profile not found" });
+
+    const conversation = conversationId
+      ? getConversation(userId, conversationId)
+      : createConversation(userId, titleFromMessage(message));
+    if (!conversation) return res.status(404).json({ error: "Conversation not found" });
+
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+
+    // Closing the stream (the Stop button, or leaving the page) stops the run
+    const controller = new AbortController();
+    let closed = false;
+    res.on("close", () => {
+      closed = true;
+      controller.abort();
+    });
+
+    const emit = (event: AgentEvent) => {
+      if (closed) return;
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    emit({ type: "conversation", id: conversation.id, title: conversation.title });
+    // Whatever the agent produced before a stop is still stored
     try {
-      if (tool === "list_github_repos") {
-        const connection = db.prepare("SELECT access_token FROM connections WHERE id = ?").get("github") as any;
-        if (!connection) return res.status(400).json({ error: "GitHub not connected" });
-
-        const response = await fetch("https://api.github.com/user/repos?sort=updated&per_page=5", {
-          headers: {
-            Authorization: `token ${connection.access_token}`,
-            "User-Agent": "Nexus-Agent",
-          },
-        });
-        const repos = await response.json();
-        return res.json(repos.map((r: any) => ({ name: r.name, url: r.html_url, description: r.description })));
-      }
-
-      if (tool === "create_github_issue") {
-        const connection = db.prepare("SELECT access_token FROM connections WHERE id = ?").get("github") as any;
-        if (!connection) return res.status(400).json({ error: "GitHub not connected" });
-
-        const { repo, title, body } = args;
-        const response = await fetch(`https://api.github.com/repos/${repo}/issues`, {
-          method: "POST",
-          headers: {
-            Authorization: `token ${connection.access_token}`,
-            "User-Agent": "Nexus-Agent",
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ title, body }),
-        });
-        const issue = await response.json();
-        return res.json({ url: issue.html_url, number: issue.number });
-      }
-
-      if (tool === "send_gmail") {
-        const connection = db.prepare("SELECT access_token FROM connections WHERE id = ?").get("google") as any;
-        if (!connection) return res.status(400).json({ error: "Google not connected" });
-
-        const { to, subject, body } = args;
-        
-        // Construct RFC 2822 message
-        const message = [
-          `To: ${to}`,
-          `Subject: ${subject}`,
-          'Content-Type: text/plain; charset="UTF-8"',
-          '',
-          body
-        ].join('\n');
-
-        const encodedMessage = Buffer.from(message)
-          .toString('base64')
-          .replace(/\+/g, '-')
-          .replace(/\//g, '_')
-          .replace(/=+$/, '');
-
-        const response = await fetch("https://gmail.googleapis.com/gmail/v1/users/me/messages/send", {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${connection.access_token}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            raw: encodedMessage,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error?.message || "Failed to send email");
-        }
-
-        const result = await response.json();
-        return res.json({ success: true, id: result.id });
-      }
-
-      res.status(404).json({ error: "Tool not found" });
+      await runAndRecord(message, emit, { userId, conversationId: conversation.id, profile, signal: controller.signal });
     } catch (error: any) {
-      console.error("Tool execution error:", error);
-      res.status(500).json({ error: error.message });
+      console.error("Agent chat failed:", error);
+      emit({ type: "error", message: error.message || "Agent failed" });
     }
+    res.end();
   });
 
   // Vite middleware for development
@@ -337,6 +561,11 @@ async function startServer() {
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
   });
+  recoverWebhookRuns();
+  startScheduler();
 }
 
-startServer();
+startServer().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
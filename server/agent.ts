@@ -0,0 +1,484 @@
+import { executeTool, getTool, listTools, toolFailure, usableConnection } from "./tools";
+import type { ToolErrorCode, ToolResult } from "./tools";
+import { cancelApprovals, isToolAlwaysAllowed, requestApproval } from "./approvals";
+import type { ApprovalDecision } from "./approvals";
+import { recordToolCall } from "./audit";
+import { getModelProvider } from "./llm";
+import type { FunctionSpec, HistoryMessage, ModelChat, ModelFunctionCall, ModelFunctionResponse, ModelProvider, ModelTurn, Source, TokenUsage } from "./llm";
+import { addMessage, getConversation, getMessages } from "./conversations";
+import { assertModelQuota, recordModelUsage, UsageLimitError } from "./usage";
+import { memoriesForPrompt } from "./memory";
+import { profileAllowsTool } from "./profiles";
+import type { AgentProfile } from "./profiles";
+import type { StoredMessage, StoredToolCall } from "./conversations";
+
+export type { Source } from "./llm";
+
+export type AgentEvent =
+  | { type: "conversation"; id: string; title: string }
+  | { type: "token"; text: string }
+  | { type: "tool_call"; id: string; name: string; args: Record<string, unknown> }
+  | { type: "approval_required"; approvalId: string; id: string; name: string; args: Record<string, unknown> }
+  | { type: "approval_resolved"; approvalId: string; id: string; approved: boolean; edited: boolean }
+  | { type: "tool_result"; id: string; name: string; result?: unknown; error?: string; code?: ToolErrorCode }
+  | { type: "step"; step: AgentStep }
+  | { type: "sources"; sources: Source[] }
+  | { type: "done"; text: string; sources: Source[]; usage?: TokenUsage; stopped?: StopReason }
+  | { type: "error"; message: string };
+
+export type EmitFn = (event: AgentEvent) => void;
+
+/** Why a run ended before the model finished on its own */
+export type StopReason = "cancelled" | "timeout" | "token_budget" | "iteration_limit" | "usage_limit";
+
+/** One entry in the execution trace shown under an assistant message */
+export interface AgentStep {
+  id: string;
+  kind: "thought" | "tool";
+  /** What the model said before calling tools; the final turn's text is the reply itself */
+  text?: string;
+  name?: string;
+  args?: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  code?: ToolErrorCode;
+  approval?: "approved" | "edited" | "rejected";
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface RunOptions {
+  userId: string;
+  conversationId: string;
+  history?: StoredMessage[];
+  /** Nobody is watching: mutating tools not allowed in the conversation are rejected instead of waiting for approval */
+  unattended?: boolean;
+  /** Overrides the system prompt, model and available tools; the defaults apply without one */
+  profile?: AgentProfile;
+  /** Aborting stops the model call and any tool request in flight; what was produced so far is kept */
+  signal?: AbortSignal;
+  limits?: Partial<RunLimits>;
+}
+
+export interface RunLimits {
+  /** Rounds of tool calls the model may make */
+  maxIterations: number;
+  /** Wall-clock budget for the whole run, including time spent waiting for approvals; 0 for none */
+  timeoutMs: number;
+  /** Input plus output tokens across all model turns; 0 for none */
+  maxTokens: number;
+  /** Read-only tool calls from one model turn that may run at the same time */
+  toolConcurrency: number;
+}
+
+function envLimit(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function defaultRunLimits(): RunLimits {
+  return {
+    maxIterations: envLimit("AGENT_MAX_ITERATIONS", 5),
+    timeoutMs: envLimit("AGENT_TIMEOUT_SECONDS", 300) * 1000,
+    maxTokens: envLimit("AGENT_MAX_TOKENS", 0),
+    toolConcurrency: Math.max(1, envLimit("AGENT_TOOL_CONCURRENCY", 4)),
+  };
+}
+
+function stopNote(reason: StopReason, limits: RunLimits) {
+  switch (reason) {
+    case "cancelled":
+      return "**Stopped:** you cancelled this run.";
+    case "timeout":
+      return `**Stopped:** the run ran out of time after ${Math.round(limits.timeoutMs / 1000)}s.`;
+    case "token_budget":
+      return `**Stopped:** the run used up its budget of ${limits.maxTokens.toLocaleString("en-US")} tokens.`;
+    case "iteration_limit":
+      return `**Stopped:** the run reached its limit of ${limits.maxIterations} round${limits.maxIterations === 1 ? "" : "s"} of tool calls.`;
+    case "usage_limit":
+      return "**Stopped:** you are out of model usage for now.";
+  }
+}
+
+const MAX_RETRIES = 3;
+// Results larger than this are cut down in the trace so stored messages stay small
+const MAX_TRACE_CHARS = 20_000;
+
+const SYSTEM_INSTRUCTION = `You are Nexus, an advanced AI Computer Mode agent.
+      You can search the web and interact with connected apps like GitHub, Gmail and Notion.
+      On GitHub you can browse issues, pull requests, code, files and commits before acting on them.
+      In Gmail, prefer drafting replies for the user to review unless they explicitly ask you to send.
+      When a user asks to perform an action on GitHub, Gmail or Notion, use the provided tools.
+      If a tool requires more information (like which repo to use), ask the user or search for it.
+      Actions that change data require the user's approval; if one is rejected, do not retry it unless asked.
+      Tool results report ok, or an error code and message; never claim an action succeeded unless ok is true, and only retry calls marked retryable.
+      When the user shares something worth knowing next time, like a default repo, team email addresses or formatting preferences, save it with remember_fact; forget facts they correct.
+      Always provide a clear summary of what you've done.`;
+
+// The profile's instruction (or the default one) plus what the agent remembers that bears on this message
+function systemInstruction(userId: string, message: string, profile?: AgentProfile) {
+  const base = profile?.system_prompt || SYSTEM_INSTRUCTION;
+  const memories = memoriesForPrompt(userId, message);
+  if (!memories.length) return base;
+  // The ids are only any use to a profile that can call forget_fact
+  const forget = getTool("forget_fact");
+  if (!forget || !profileAllowsTool(profile, forget)) {
+    return `${base}\n\nWhat you remember about this user:\n${memories.map((m) => `- ${m.content}`).join("\n")}`;
+  }
+  const lines = memories.map((m) => `- [${m.id}] ${m.content}`).join("\n");
+  return `${base}\n\nWhat you remember about this user (ids are for forget_fact):\n${lines}`;
+}
+
+function functionSpecs(profile?: AgentProfile): FunctionSpec[] {
+  return listTools().filter((tool) => profileAllowsTool(profile, tool)).map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+  }));
+}
+
+function traceValue(value: unknown) {
+  const json = JSON.stringify(value);
+  if (json === undefined || json.length <= MAX_TRACE_CHARS) return value;
+  return { truncated: true, preview: json.slice(0, MAX_TRACE_CHARS) };
+}
+
+// Stream one model turn, retrying transient failures as long as nothing has reached the client yet
+async function streamTurn(
+  provider: ModelProvider,
+  chat: ModelChat,
+  input: string | ModelFunctionResponse[],
+  emit: EmitFn,
+  signal: AbortSignal
+): Promise<ModelTurn> {
+  for (let attempt = 0; ; attempt++) {
+    let emitted = false;
+    try {
+      return await chat.send(input, (text) => {
+        emitted = true;
+        emit({ type: "token", text });
+      }, signal);
+    } catch (error: any) {
+      if (signal.aborted) throw error;
+      console.error(`Agent error (Attempt ${attempt + 1}):`, error);
+      if (emitted || !provider.isTransient?.(error) || attempt >= MAX_RETRIES - 1) throw error;
+
+      const delay = Math.pow(2, attempt + 1) * 1000; // Exponential backoff
+      await new Promise((resolve, reject) => {
+        const timer = setTimeout(resolve, delay);
+        signal.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(signal.reason);
+        }, { once: true });
+      });
+    }
+  }
+}
+
+// A call that ends without running: disabled, not runnable or rejected
+function skippedCall(call: ModelFunctionCall, emit: EmitFn, failure: ToolResult, approval?: AgentStep["approval"]) {
+  const id = call.id || call.name;
+  emit({ type: "tool_result", id, name: call.name, error: failure.message, code: failure.code });
+  return {
+    response: { name: call.name, response: { ...failure }, id: call.id },
+    step: {
+      id,
+      kind: "tool" as const,
+      name: call.name,
+      args: call.args,
+      error: failure.message,
+      code: failure.code,
+      approval,
+      startedAt: new Date().toISOString(),
+      durationMs: 0,
+    },
+  };
+}
+
+async function runToolCall(
+  call: ModelFunctionCall,
+  emit: EmitFn,
+  { userId, conversationId, unattended, profile }: RunOptions,
+  signal: AbortSignal
+): Promise<{ response: ModelFunctionResponse; step: AgentStep }> {
+  const id = call.id || call.name;
+  let args = call.args;
+  let edited = false;
+  let approval: AgentStep["approval"];
+  emit({ type: "tool_call", id, name: call.name, args });
+
+  // The model only sees the profile's tools, but nothing stops it from naming another one
+  const tool = getTool(call.name);
+  if (tool && !profileAllowsTool(profile, tool)) {
+    const message = `${tool.name} is not enabled in the "${profile!.name}" profile`;
+    return skippedCall(call, emit, { ok: false, code: "unknown_tool", message, retryable: false });
+  }
+
+  // Mutating tools wait for the user unless they were always-allowed in this conversation.
+  // Unattended runs have nobody to ask, so those calls are rejected straight away.
+  if (tool?.mutating && !isToolAlwaysAllowed(conversationId, tool.name)) {
+    // Don't ask the user to approve a call that could not run anyway
+    try {
+      usableConnection(tool, userId);
+    } catch (error) {
+      const failure = toolFailure(error);
+      recordToolCall({ userId, conversationId, toolName: tool.name, provider: tool.provider, args, status: "error", error: `${failure.code}: ${failure.message}` });
+      return skippedCall(call, emit, failure);
+    }
+
+    let decision: ApprovalDecision;
+    if (unattended) {
+      decision = { approved: false, reason: `${tool.name} needs approval, and nobody is around to give it in this unattended run.` };
+      approval = "rejected";
+    } else {
+      const pending = requestApproval(userId, conversationId, tool.name);
+      emit({ type: "approval_required", approvalId: pending.id, id, name: tool.name, args });
+      decision = await pending.decision;
+      edited = !!decision.args && JSON.stringify(decision.args) !== JSON.stringify(args);
+      approval = !decision.approved ? "rejected" : edited ? "edited" : "approved";
+      emit({ type: "approval_resolved", approvalId: pending.id, id, approved: decision.approved, edited });
+    }
+
+    if (!decision.approved) {
+      const message = decision.reason || "The user rejected this action.";
+      recordToolCall({ userId, conversationId, toolName: tool.name, provider: tool.provider, args, status: "rejected", error: message });
+      return skippedCall(call, emit, { ok: false, code: "rejected", message, retryable: false }, approval);
+    }
+    if (edited) args = decision.args!;
+  }
+
+  // Timed from here so the trace shows execution time, not how long the approval took
+  const started = new Date();
+  const result = await executeTool(call.name, args, userId, conversationId, signal);
+  emit({
+    type: "tool_result",
+    id,
+    name: call.name,
+    ...(result.ok ? { result: result.data } : { error: result.message, code: result.code }),
+  });
+
+  const response = edited ? { ...result, note: "The user edited the arguments before approving.", args } : { ...result };
+  return {
+    response: { name: call.name, response, id: call.id },
+    step: {
+      id,
+      kind: "tool",
+      name: call.name,
+      args,
+      ...(result.ok ? { result: traceValue(result.data) } : { error: result.message, code: result.code }),
+      approval,
+      startedAt: started.toISOString(),
+      durationMs: Date.now() - started.getTime(),
+    },
+  };
+}
+
+// Start `task` for each index in [start, end), keeping at most `limit` in flight
+async function runPool(start: number, end: number, limit: number, task: (index: number) => Promise<void>) {
+  let next = start;
+  const worker = async () => {
+    while (next < end) await task(next++);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, end - start) }, worker));
+}
+
+/**
+ * Run one model turn's tool calls. Consecutive read-only calls run concurrently; a mutating call
+ * waits for everything before it and runs alone, so changes happen in the order the model asked
+ * for them. Responses come back in call order whatever order the calls finish in.
+ */
+async function runToolCalls(
+  calls: ModelFunctionCall[],
+  emit: EmitFn,
+  options: RunOptions,
+  signal: AbortSignal,
+  concurrency: number
+) {
+  const responses: ModelFunctionResponse[] = new Array(calls.length);
+
+  // One failing call must not take the others in its batch down with it
+  const run = async (index: number) => {
+    const call = calls[index];
+    try {
+      const { response, step } = await runToolCall(call, emit, options, signal);
+      emit({ type: "step", step });
+      responses[index] = response;
+    } catch (error) {
+      console.error(`Tool call ${call.name} failed:`, error);
+      const failure = toolFailure(error);
+      emit({ type: "tool_result", id: call.id || call.name, name: call.name, error: failure.message, code: failure.code });
+      responses[index] = { name: call.name, response: { ...failure }, id: call.id };
+    }
+  };
+
+  const isMutating = (call: ModelFunctionCall) => !!getTool(call.name)?.mutating;
+  for (let start = 0; start < calls.length; ) {
+    signal.throwIfAborted();
+    let end = start + 1;
+    if (!isMutating(calls[start])) {
+      while (end < calls.length && !isMutating(calls[end])) end++;
+    }
+    await runPool(start, end, concurrency, run);
+    start = end;
+  }
+  signal.throwIfAborted();
+  return responses;
+}
+
+// Replay stored turns so the model sees the earlier conversation
+function toHistory(messages: StoredMessage[]): HistoryMessage[] {
+  return messages
+    .filter((m) => m.content)
+    .map((m) => ({ role: m.role === "user" ? "user" : "model", text: m.content }));
+}
+
+export async function runAgent(userQuery: string, emit: EmitFn, options: RunOptions) {
+  const { history = [] } = options;
+  const limits = { ...defaultRunLimits(), ...options.limits };
+  const provider = getModelProvider();
+
+  const configError = provider.configError();
+  if (configError) {
+    emit({ type: "token", text: configError });
+    emit({ type: "done", text: configError, sources: [] });
+    return;
+  }
+
+  const { profile } = options;
+  const model = profile?.model || process.env.LLM_MODEL || provider.defaultModel;
+  const chat = provider.createChat({
+    model,
+    temperature: profile?.temperature ?? undefined,
+    systemInstruction: systemInstruction(options.userId, userQuery, profile),
+    functions: functionSpecs(profile),
+    history: toHistory(history),
+    webSearch: profile ? profile.web_search : true,
+  });
+
+  // The caller stopping the run and the time limit both abort whatever is in flight
+  const timeout = limits.timeoutMs > 0 ? AbortSignal.timeout(limits.timeoutMs) : undefined;
+  const signal = AbortSignal.any([options.signal, timeout].filter((s): s is AbortSignal => !!s));
+  const onAbort = () => cancelApprovals(options.conversationId, "The run was stopped before this action was approved.");
+  signal.addEventListener("abort", onAbort, { once: true });
+
+  // Everything streamed so far, so a stopped run can still show its partial reply
+  let fullText = "";
+  const emitRun: EmitFn = (event) => {
+    if (event.type === "token") fullText += event.text;
+    emit(event);
+  };
+
+  const sources: Source[] = [];
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+  let turnCount = 0;
+  // Each model turn is a thought step; only turns that lead to tool calls keep their text
+  const modelTurn = async (input: string | ModelFunctionResponse[]) => {
+    assertModelQuota(options.userId);
+    const started = new Date();
+    let turn: ModelTurn | undefined;
+    try {
+      turn = await streamTurn(provider, chat, input, emitRun, signal);
+    } finally {
+      // Failed requests count too; they still hit the backend
+      recordModelUsage(options.userId, provider.name, model, turn?.usage);
+    }
+    sources.push(...turn.sources);
+    usage.inputTokens += turn.usage?.inputTokens ?? 0;
+    usage.outputTokens += turn.usage?.outputTokens ?? 0;
+    const step: AgentStep = {
+      id: `turn-${++turnCount}`,
+      kind: "thought",
+      ...(turn.functionCalls.length && turn.text ? { text: turn.text } : {}),
+      startedAt: started.toISOString(),
+      durationMs: Date.now() - started.getTime(),
+    };
+    emit({ type: "step", step });
+    return turn;
+  };
+
+  let stopped: StopReason | undefined;
+  let note: string | undefined;
+  try {
+    let turn = await modelTurn(userQuery);
+
+    // Handle function calls in a loop
+    let iterations = 0;
+    while (turn.functionCalls.length) {
+      if (iterations >= limits.maxIterations) {
+        stopped = "iteration_limit";
+        break;
+      }
+      if (limits.maxTokens > 0 && usage.inputTokens + usage.outputTokens >= limits.maxTokens) {
+        stopped = "token_budget";
+        break;
+      }
+      iterations++;
+
+      const functionResponses = await runToolCalls(turn.functionCalls, emitRun, options, signal, limits.toolConcurrency);
+      turn = await modelTurn(functionResponses);
+    }
+  } catch (error: any) {
+    if (error instanceof UsageLimitError) {
+      stopped = "usage_limit";
+      note = `**Stopped:** ${error.message}`;
+    } else if (signal.aborted) {
+      stopped = options.signal?.aborted ? "cancelled" : "timeout";
+    } else {
+      const text = provider.describeError?.(error);
+      if (!text) {
+        emit({ type: "error", message: error.message || "Agent failed" });
+        return;
+      }
+      emitRun({ type: "token", text });
+    }
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+  }
+
+  if (stopped) emitRun({ type: "token", text: `${fullText ? "\n\n" : ""}${note ?? stopNote(stopped, limits)}` });
+
+  const uniqueSources = sources.filter((s, i) => sources.findIndex((o) => o.uri === s.uri) === i);
+  if (uniqueSources.length) emit({ type: "sources", sources: uniqueSources });
+  emit({ type: "done", text: fullText || "Task completed.", sources: uniqueSources, usage, ...(stopped ? { stopped } : {}) });
+}
+
+export interface RecordedTurn {
+  text: string;
+  sources: Source[];
+  toolCalls: StoredToolCall[];
+  steps: AgentStep[];
+  /** Set when the agent failed outright rather than replying */
+  error?: string;
+}
+
+/** Run the agent on a new message and store both sides of the exchange in the conversation */
+export async function runAndRecord(message: string, emit: EmitFn, options: Omit<RunOptions, "history">) {
+  const history = getMessages(options.conversationId);
+  addMessage(options.conversationId, { role: "user", content: message });
+
+  const turn: RecordedTurn = { text: "", sources: [], toolCalls: [], steps: [] };
+  let finished = false;
+  await runAgent(message, (event) => {
+    if (event.type === "tool_result") {
+      turn.toolCalls.push({ id: event.id, name: event.name, status: event.error ? "error" : "success", error: event.error, code: event.code });
+    }
+    if (event.type === "step") turn.steps.push(event.step);
+    if (event.type === "done") {
+      finished = true;
+      Object.assign(turn, { text: event.text, sources: event.sources });
+    }
+    if (event.type === "error") {
+      finished = true;
+      Object.assign(turn, { text: `Error: ${event.message}`, error: event.message });
+    }
+    emit(event);
+  }, { ...options, history });
+
+  // The conversation may have been deleted while the run was going
+  if (finished && getConversation(options.userId, options.conversationId)) {
+    const { text, sources, toolCalls, steps } = turn;
+    addMessage(options.conversationId, { role: "assistant", content: text, sources, toolCalls, steps });
+  }
+  return turn;
+}
@@ -0,0 +1,60 @@
+import { randomUUID } from "crypto";
+import { db } from "./db";
+
+export interface ApprovalDecision {
+  approved: boolean;
+  /** Arguments to run the tool with, possibly edited by the user */
+  args?: Record<string, unknown>;
+  alwaysAllow?: boolean;
+  reason?: string;
+}
+
+interface PendingApproval {
+  userId: string;
+  conversationId: string;
+  toolName: string;
+  resolve: (decision: ApprovalDecision) => void;
+}
+
+const pending = new Map<string, PendingApproval>();
+
+export function isToolAlwaysAllowed(conversationId: string, toolName: string) {
+  return !!db
+    .prepare("SELECT 1 FROM tool_grants WHERE conversation_id = ? AND tool_name = ?")
+    .get(conversationId, toolName);
+}
+
+export function allowToolForConversation(conversationId: string, toolName: string) {
+  db.prepare("INSERT OR IGNORE INTO tool_grants (conversation_id, tool_name) VALUES (?, ?)").run(conversationId, toolName);
+}
+
+// Park a tool call until the user answers through resolveApproval
+export function requestApproval(userId: string, conversationId: string, toolName: string) {
+  const id = randomUUID();
+  const decision = new Promise<ApprovalDecision>((resolve) => {
+    pending.set(id, { userId, conversationId, toolName, resolve });
+  });
+  return { id, decision };
+}
+
+export function resolveApproval(id: string, userId: string, decision: ApprovalDecision) {
+  const approval = pending.get(id);
+  if (!approval || approval.userId !== userId) return false;
+
+  pending.delete(id);
+  if (decision.approved && decision.alwaysAllow) {
+    allowToolForConversation(approval.conversationId, approval.toolName);
+  }
+  approval.resolve(decision);
+  return true;
+}
+
+// Reject everything still waiting in a conversation, e.g. when the client disconnects
+export function cancelApprovals(conversationId: string, reason: string) {
+  for (const [id, approval] of pending) {
+    if (approval.conversationId === conversationId) {
+      pending.delete(id);
+      approval.resolve({ approved: false, reason });
+    }
+  }
+}
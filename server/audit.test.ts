@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { registerUser } from "./auth";
+import { listAuditEntries, recordToolCall, writeAuditExport } from "./audit";
+
+const user = registerUser("audit-test", "correct horse battery");
+const other = registerUser("audit-test-other", "correct horse battery");
+
+// More rows than the list view's default page of 100 and its cap of 1000
+const ENTRIES = 1200;
+for (let i = 0; i < ENTRIES; i++) {
+  recordToolCall({ userId: user.id, toolName: i % 2 ? "recall_facts" : "remember_fact", provider: null, args: { i }, status: "success" });
+}
+recordToolCall({ userId: other.id, toolName: "recall_facts", provider: null, args: {}, status: "success" });
+
+function exportAudit(format: "csv" | "json", filters = {}) {
+  const chunks: string[] = [];
+  writeAuditExport(user.id, filters, format, (chunk) => chunks.push(chunk));
+  return chunks.join("");
+}
+
+test("the list view is paged", () => {
+  assert.equal(listAuditEntries(user.id).length, 100);
+  assert.equal(listAuditEntries(user.id, { limit: 5000 }).length, 1000);
+});
+
+test("a CSV export holds every matching entry, newest first", () => {
+  const lines = exportAudit("csv").trimEnd().split("\r\n");
+  assert.equal(lines[0], "created_at,tool_name,provider,status,http_status,latency_ms,conversation_id,args,result_summary,error");
+  assert.equal(lines.length, ENTRIES + 1);
+  assert.match(lines[1], new RegExp(`"{""i"":${ENTRIES - 1}}"`));
+  assert.match(lines[ENTRIES], /"{""i"":0}"/);
+});
+
+test("a JSON export holds every entry matching the filters and nobody else's", () => {
+  const entries = JSON.parse(exportAudit("json", { tool: "recall_facts" }));
+  assert.equal(entries.length, ENTRIES / 2);
+  assert.ok(entries.every((e: any) => e.tool_name === "recall_facts" && e.args.i % 2 === 1));
+  assert.deepEqual(JSON.parse(exportAudit("json", { tool: "no_such_tool" })), []);
+});
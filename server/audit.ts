@@ -0,0 +1,160 @@
+import { randomUUID } from "crypto";
+import { db } from "./db";
+
+export type AuditStatus = "success" | "error" | "rejected";
+
+export interface AuditEntry {
+  id: string;
+  conversation_id: string | null;
+  tool_name: string;
+  provider: string | null;
+  args: unknown;
+  status: AuditStatus;
+  result_summary: string | null;
+  error: string | null;
+  latency_ms: number | null;
+  http_status: number | null;
+  created_at: string;
+}
+
+export interface AuditFilters {
+  tool?: string;
+  provider?: string;
+  status?: string;
+  conversationId?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const SUMMARY_LENGTH = 500;
+const ARG_STRING_LENGTH = 1000;
+const MAX_LIMIT = 1000;
+
+// Attachment contents and long bodies would bloat the log, so long strings are cut short
+function compactArgs(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.length > ARG_STRING_LENGTH ? `${value.slice(0, ARG_STRING_LENGTH)}… (${value.length} chars)` : value;
+  }
+  if (Array.isArray(value)) return value.map(compactArgs);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, compactArgs(v)]));
+  }
+  return value;
+}
+
+function summarize(result: unknown) {
+  if (result === undefined) return null;
+  const text = typeof result === "string" ? result : JSON.stringify(result);
+  return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH - 1)}…` : text;
+}
+
+export function recordToolCall(entry: {
+  userId: string;
+  conversationId?: string | null;
+  toolName: string;
+  provider?: string | null;
+  args: unknown;
+  status: AuditStatus;
+  result?: unknown;
+  error?: string;
+  latencyMs?: number;
+  httpStatus?: number;
+}) {
+  try {
+    db.prepare(`
+      INSERT INTO audit_log (id, user_id, conversation_id, tool_name, provider, args, status, result_summary, error, latency_ms, http_status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      randomUUID(),
+      entry.userId,
+      entry.conversationId ?? null,
+      entry.toolName,
+      entry.provider ?? null,
+      JSON.stringify(compactArgs(entry.args ?? {})),
+      entry.status,
+      summarize(entry.result),
+      entry.error ?? null,
+      entry.latencyMs ?? null,
+      entry.httpStatus ?? null
+    );
+  } catch (error) {
+    // A failed audit write must not turn a completed action into an error
+    console.error("Failed to write audit log:", error);
+  }
+}
+
+const AUDIT_COLUMNS = "id, conversation_id, tool_name, provider, args, status, result_summary, error, latency_ms, http_status, created_at";
+
+function auditWhere(userId: string, filters: AuditFilters) {
+  const conditions = ["user_id = ?"];
+  const params: unknown[] = [userId];
+  const add = (sql: string, value: unknown) => {
+    conditions.push(sql);
+    params.push(value);
+  };
+
+  if (filters.tool) add("tool_name = ?", filters.tool);
+  if (filters.provider) add("provider = ?", filters.provider);
+  if (filters.status) add("status = ?", filters.status);
+  if (filters.conversationId) add("conversation_id = ?", filters.conversationId);
+  if (filters.since) add("created_at >= datetime(?)", filters.since);
+  if (filters.until) add("created_at <= datetime(?)", filters.until);
+  return { where: conditions.join(" AND "), params };
+}
+
+const toEntry = (row: any): AuditEntry => ({ ...row, args: row.args ? JSON.parse(row.args) : {} });
+
+export function listAuditEntries(userId: string, filters: AuditFilters = {}): AuditEntry[] {
+  const { where, params } = auditWhere(userId, filters);
+  const limit = Math.min(Math.max(filters.limit || 100, 1), MAX_LIMIT);
+  const rows = db
+    .prepare(`
+      SELECT ${AUDIT_COLUMNS}
+      FROM audit_log WHERE ${where}
+      ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?
+    `)
+    .all(...params, limit, Math.max(filters.offset || 0, 0)) as any[];
+
+  return rows.map(toEntry);
+}
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  "created_at", "tool_name", "provider", "status", "http_status", "latency_ms",
+  "conversation_id", "args", "result_summary", "error",
+];
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return "";
+  let text = typeof value === "string" ? value : JSON.stringify(value);
+  // Stop spreadsheets from evaluating model-written text as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvRow = (entry: AuditEntry) => `${CSV_COLUMNS.map((c) => csvCell(entry[c])).join(",")}\r\n`;
+
+/**
+ * Write every entry matching the filters as CSV or a JSON array, newest first. Unlike the list
+ * view there is no limit or offset: rows are read from SQLite one at a time and passed on as they come.
+ */
+export function writeAuditExport(userId: string, filters: Omit<AuditFilters, "limit" | "offset">, format: "csv" | "json", write: (chunk: string) => void) {
+  const { where, params } = auditWhere(userId, filters);
+  const rows = db
+    .prepare(`SELECT ${AUDIT_COLUMNS} FROM audit_log WHERE ${where} ORDER BY created_at DESC, rowid DESC`)
+    .iterate(...params) as IterableIterator<any>;
+
+  if (format === "csv") {
+    write(`${CSV_COLUMNS.join(",")}\r\n`);
+    for (const row of rows) write(csvRow(toEntry(row)));
+    return;
+  }
+  let first = true;
+  write("[");
+  for (const row of rows) {
+    write(`${first ? "" : ","}${JSON.stringify(toEntry(row))}`);
+    first = false;
+  }
+  write("]");
+}
@@ -0,0 +1,233 @@
+import { createHash, randomBytes, randomUUID, scryptSync, timingSafeEqual } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { db } from "./db";
+
+export interface User {
+  id: string;
+  username: string;
+  display_name: string;
+  created_at: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+/** Who someone is according to an identity provider, before they are mapped to a local user */
+export interface Identity {
+  username: string;
+  displayName?: string;
+}
+
+export interface IdentityProvider {
+  name: string;
+  /** Verify credentials posted to /api/auth/login */
+  login?: (body: Record<string, unknown>) => Promise<Identity | null>;
+  /** Resolve a user from the request itself, e.g. headers set by an authenticating proxy */
+  authenticateRequest?: (req: Request) => Promise<Identity | null>;
+  /** Whether new accounts can be created through /api/auth/register */
+  allowsRegistration: boolean;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export const SESSION_COOKIE = "nexus_session";
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, 64);
+  return `scrypt:${salt.toString("base64")}:${hash.toString("base64")}`;
+}
+
+function verifyPassword(password: string, stored: string | null) {
+  if (!stored) return false;
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt") return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = scryptSync(password, Buffer.from(salt, "base64"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+const USER_COLUMNS = "id, username, display_name, created_at";
+
+export function getUserById(id: string) {
+  return db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).get(id) as User | undefined;
+}
+
+function getUserByUsername(username: string) {
+  return db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE username = ? COLLATE NOCASE`).get(username) as User | undefined;
+}
+
+export function hasUsers() {
+  return !!db.prepare("SELECT 1 FROM users LIMIT 1").get();
+}
+
+function createUser(username: string, displayName: string, passwordHash: string | null) {
+  const id = randomUUID();
+  const isFirstUser = !hasUsers();
+
+  db.transaction(() => {
+    db.prepare("INSERT INTO users (id, username, display_name, password_hash) VALUES (?, ?, ?, ?)")
+      .run(id, username, displayName, passwordHash);
+
+    // Data from before accounts existed belongs to whoever sets the server up
+    if (isFirstUser) {
+      db.prepare("UPDATE connections SET user_id = ? WHERE user_id IS NULL").run(id);
+      db.prepare("UPDATE conversations SET user_id = ? WHERE user_id IS NULL").run(id);
+    }
+  })();
+
+  return getUserById(id)!;
+}
+
+const localProvider: IdentityProvider = {
+  name: "local",
+  get allowsRegistration() {
+    return process.env.ALLOW_REGISTRATION !== "false";
+  },
+  login: async ({ username, password }) => {
+    if (typeof username !== "string" || typeof password !== "string") return null;
+    const row = db.prepare("SELECT username, display_name, password_hash FROM users WHERE username = ? COLLATE NOCASE")
+      .get(username) as { username: string; display_name: string; password_hash: string | null } | undefined;
+    if (!row || !verifyPassword(password, row.password_hash)) return null;
+    return { username: row.username, displayName: row.display_name };
+  },
+};
+
+// Trusts a username header set by an authenticating reverse proxy (oauth2-proxy, IAP, ...)
+const proxyProvider: IdentityProvider = {
+  name: "proxy",
+  allowsRegistration: false,
+  authenticateRequest: async (req) => {
+    const header = (process.env.AUTH_PROXY_HEADER || "x-forwarded-user").toLowerCase();
+    const value = req.headers[header];
+    const username = Array.isArray(value) ? value[0] : value;
+    return username ? { username } : null;
+  },
+};
+
+const identityProviders: Record<string, IdentityProvider> = {
+  local: localProvider,
+  proxy: proxyProvider,
+};
+
+export function getIdentityProvider() {
+  const name = process.env.AUTH_PROVIDER || "local";
+  const provider = identityProviders[name];
+  if (!provider) throw new Error(`Unknown AUTH_PROVIDER "${name}"`);
+  return provider;
+}
+
+function userForIdentity(identity: Identity) {
+  return getUserByUsername(identity.username) ||
+    createUser(identity.username, identity.displayName || identity.username, null);
+}
+
+export function registerUser(username: unknown, password: unknown, displayName?: unknown) {
+  const provider = getIdentityProvider();
+  const isFirstUser = !hasUsers();
+  if (!provider.login || (!provider.allowsRegistration && !isFirstUser)) {
+    throw new AuthError("Registration is disabled", 403);
+  }
+  if (typeof username !== "string" || !USERNAME_PATTERN.test(username)) {
+    throw new AuthError("Username must be 3-32 letters, digits, dots, dashes or underscores");
+  }
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (getUserByUsername(username)) throw new AuthError("Username is already taken", 409);
+
+  const name = typeof displayName === "string" && displayName.trim() ? displayName.trim() : username;
+  return createUser(username, name, hashPassword(password));
+}
+
+export async function loginUser(body: Record<string, unknown>) {
+  const provider = getIdentityProvider();
+  if (!provider.login) throw new AuthError(`Sign-in is handled by the ${provider.name} identity provider`, 400);
+  const identity = await provider.login(body);
+  if (!identity) throw new AuthError("Invalid username or password", 401);
+  return userForIdentity(identity);
+}
+
+const hashSessionToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+export function createSession(res: Response, userId: string) {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  db.prepare("INSERT INTO sessions (id, user_id, expires_at) VALUES (?, ?, ?)").run(hashSessionToken(token), userId, expiresAt);
+
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    expires: new Date(expiresAt),
+    path: "/",
+  });
+}
+
+export function readCookie(req: Request, name: string) {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(rest.join("="));
+  }
+  return undefined;
+}
+
+/** Stable identifier of the current session, without exposing the cookie value */
+export function sessionKey(req: Request) {
+  const token = readCookie(req, SESSION_COOKIE);
+  return token ? hashSessionToken(token) : null;
+}
+
+export function destroySession(req: Request, res: Response) {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (token) db.prepare("DELETE FROM sessions WHERE id = ?").run(hashSessionToken(token));
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+}
+
+function userFromSession(req: Request) {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (!token) return undefined;
+  const session = db.prepare("SELECT user_id, expires_at FROM sessions WHERE id = ?")
+    .get(hashSessionToken(token)) as { user_id: string; expires_at: number } | undefined;
+  if (!session) return undefined;
+  if (session.expires_at <= Date.now()) {
+    db.prepare("DELETE FROM sessions WHERE id = ?").run(hashSessionToken(token));
+    return undefined;
+  }
+  return getUserById(session.user_id);
+}
+
+/** Attach req.user from the session cookie or the configured identity provider */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.user = userFromSession(req);
+    const provider = getIdentityProvider();
+    if (!req.user && provider.authenticateRequest) {
+      const identity = await provider.authenticateRequest(req);
+      if (identity) req.user = userForIdentity(identity);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) return res.status(401).json({ error: "Not signed in" });
+  next();
+}
@@ -0,0 +1,93 @@
+import { db } from "./db";
+import { getTool } from "./tools";
+import { runAndRecord } from "./agent";
+import { allowToolForConversation } from "./approvals";
+import { createConversation } from "./conversations";
+
+export class RunConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RunConfigError";
+  }
+}
+
+export type RunStatus = "running" | "success" | "error";
+
+export interface RunOutcome {
+  status: Exclude<RunStatus, "running">;
+  output: string | null;
+  error: string | null;
+}
+
+/** Check a list of mutating tools a background run may use without approval */
+export function parseAllowedTools(value: unknown) {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((name) => typeof name !== "string")) {
+    throw new RunConfigError("allowed_tools must be a list of tool names");
+  }
+  for (const name of value) {
+    const tool = getTool(name);
+    if (!tool) throw new RunConfigError(`Unknown tool "${name}"`);
+    if (!tool.mutating) throw new RunConfigError(`${name} does not change anything and never needs approval`);
+  }
+  return [...new Set(value as string[])];
+}
+
+/**
+ * Run a prompt with nobody watching. Each run gets its own conversation so the transcript can
+ * be opened like any other chat; only `allowedTools` may change data, everything else is declined.
+ */
+export function startBackgroundRun(userId: string, title: string, prompt: string, allowedTools: string[]) {
+  const conversation = createConversation(userId, title);
+  for (const tool of allowedTools) allowToolForConversation(conversation.id, tool);
+
+  const outcome = (async (): Promise<RunOutcome> => {
+    try {
+      const turn = await runAndRecord(prompt, () => {}, { userId, conversationId: conversation.id, unattended: true });
+      if (turn.error) return { status: "error", output: turn.text, error: turn.error };
+
+      const failed = turn.toolCalls.filter((call) => call.status === "error");
+      if (failed.length) {
+        const error = `${failed.length} of ${turn.toolCalls.length} actions failed: ${failed.map((call) => call.name).join(", ")}`;
+        return { status: "error", output: turn.text, error };
+      }
+      return { status: "success", output: turn.text, error: null };
+    } catch (error: any) {
+      console.error(`Background run in conversation ${conversation.id} failed:`, error);
+      return { status: "error", output: null, error: error.message || "Run failed" };
+    }
+  })();
+
+  return { conversationId: conversation.id, outcome };
+}
+
+/** Store a run's outcome on its row once it settles; the returned promise never rejects */
+export function recordOutcome(table: "scheduled_runs" | "webhook_runs", id: string, outcome: Promise<RunOutcome>) {
+  const finish = ({ status, output, error }: RunOutcome) =>
+    db.prepare(`UPDATE ${table} SET status = ?, output = ?, error = ?, finished_at = ? WHERE id = ?`)
+      .run(status, output, error, Date.now(), id);
+
+  return outcome.then(finish).then(
+    () => {},
+    (error) => {
+      console.error(`Could not record the outcome of run ${id}:`, error);
+      try {
+        finish({ status: "error", output: null, error: error?.message || "Run failed" });
+      } catch {
+        // The row stays "running" until the next restart marks it interrupted
+      }
+    }
+  );
+}
+
+/** Title for a run's conversation, e.g. "Daily triage · 2026-10-19 09:00" */
+export function runTitle(name: string, startedAt: Date) {
+  return `${name} · ${startedAt.toISOString().slice(0, 16).replace("T", " ")}`;
+}
+
+/** Runs still marked as running at startup were cut off by a restart */
+export function failInterruptedRuns(table: "scheduled_runs" | "webhook_runs") {
+  return db
+    .prepare(`UPDATE ${table} SET status = 'error', error = ?, finished_at = ? WHERE status = 'running'`)
+    .run("The server stopped before the run finished.", Date.now()).changes;
+}
@@ -0,0 +1,106 @@
+import { randomUUID } from "crypto";
+import { db } from "./db";
+import type { AgentStep, Source } from "./agent";
+import type { ToolErrorCode } from "./tools";
+
+export interface Conversation {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StoredToolCall {
+  id: string;
+  name: string;
+  status: "success" | "error";
+  error?: string;
+  code?: ToolErrorCode;
+}
+
+export interface StoredMessage {
+  id: string;
+  conversation_id: string;
+  role: "user" | "assistant";
+  content: string;
+  sources: Source[];
+  toolCalls: StoredToolCall[];
+  steps: AgentStep[];
+  created_at: string;
+}
+
+const TITLE_LENGTH = 60;
+
+export function titleFromMessage(message: string) {
+  const line = message.trim().split("\n")[0];
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line || "New conversation";
+}
+
+const CONVERSATION_COLUMNS = "id, title, created_at, updated_at";
+
+export function listConversations(userId: string) {
+  return db
+    .prepare(`SELECT ${CONVERSATION_COLUMNS} FROM conversations WHERE user_id = ? ORDER BY updated_at DESC`)
+    .all(userId) as Conversation[];
+}
+
+export function getConversation(userId: string, id: string) {
+  return db
+    .prepare(`SELECT ${CONVERSATION_COLUMNS} FROM conversations WHERE id = ? AND user_id = ?`)
+    .get(id, userId) as Conversation | undefined;
+}
+
+export function createConversation(userId: string, title = "New conversation") {
+  const id = randomUUID();
+  db.prepare("INSERT INTO conversations (id, user_id, title) VALUES (?, ?, ?)").run(id, userId, title);
+  return getConversation(userId, id)!;
+}
+
+export function renameConversation(userId: string, id: string, title: string) {
+  const result = db
+    .prepare("UPDATE conversations SET title = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?")
+    .run(title, id, userId);
+  return result.changes > 0 ? getConversation(userId, id)! : undefined;
+}
+
+export function deleteConversation(userId: string, id: string) {
+  return db.prepare("DELETE FROM conversations WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+}
+
+/** Callers must check the conversation belongs to the user first */
+export function getMessages(conversationId: string): StoredMessage[] {
+  const rows = db
+    .prepare("SELECT * FROM messages WHERE conversation_id = ? ORDER BY created_at, rowid")
+    .all(conversationId) as any[];
+  return rows.map((row) => ({
+    id: row.id,
+    conversation_id: row.conversation_id,
+    role: row.role,
+    content: row.content,
+    sources: row.sources ? JSON.parse(row.sources) : [],
+    toolCalls: row.tool_calls ? JSON.parse(row.tool_calls) : [],
+    steps: row.steps ? JSON.parse(row.steps) : [],
+    created_at: row.created_at,
+  }));
+}
+
+export function addMessage(
+  conversationId: string,
+  message: { role: "user" | "assistant"; content: string; sources?: Source[]; toolCalls?: StoredToolCall[]; steps?: AgentStep[] }
+) {
+  const id = randomUUID();
+  db.prepare(`
+    INSERT INTO messages (id, conversation_id, role, content, sources, tool_calls, steps)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id,
+    conversationId,
+    message.role,
+    message.content,
+    message.sources?.length ? JSON.stringify(message.sources) : null,
+    message.toolCalls?.length ? JSON.stringify(message.toolCalls) : null,
+    message.steps?.length ? JSON.stringify(message.steps) : null
+  );
+  db.prepare("UPDATE conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(conversationId);
+  return id;
+}
@@ -0,0 +1,137 @@
+/**
+ * Minimal five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in the server's local time. Fields accept "*", numbers, ranges ("1-5"),
+ * steps ("*\/15", "0-30/10") and comma lists; months and weekdays also accept
+ * three-letter names. "@hourly", "@daily", "@weekly" and "@monthly" are shorthands.
+ */
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronError";
+  }
+}
+
+interface CronField {
+  values: Set<number>;
+  /** The field was "*", which matters for the day-of-month / day-of-week rule */
+  any: boolean;
+}
+
+export interface CronSchedule {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Give up looking for a matching time after this many years (e.g. "0 0 31 2 *")
+const SEARCH_YEARS = 5;
+
+function parseValue(raw: string, names: string[] | null, offset: number, field: string) {
+  const index = names ? names.indexOf(raw.toLowerCase()) : -1;
+  if (index >= 0) return index + offset;
+  if (!/^\d+$/.test(raw)) throw new CronError(`Invalid ${field} value "${raw}"`);
+  return Number(raw);
+}
+
+function parseField(raw: string, field: string, min: number, max: number, names: string[] | null = null, offset = 0): CronField {
+  const values = new Set<number>();
+  for (const part of raw.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) throw new CronError(`Invalid ${field} step "${stepRaw}"`);
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = parseValue(from, names, offset, field);
+      end = to === undefined ? (stepRaw === undefined ? start : max) : parseValue(to, names, offset, field);
+    }
+    if (start < min || end > max || start > end) {
+      throw new CronError(`${field} must be between ${min} and ${max}, got "${part}"`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return { values, any: raw === "*" };
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) throw new CronError("Cron expressions need five fields: minute hour day month weekday");
+
+  const daysOfWeek = parseField(fields[4], "day of week", 0, 7, DAY_NAMES);
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.values.delete(7)) daysOfWeek.values.add(0);
+
+  return {
+    minutes: parseField(fields[0], "minute", 0, 59),
+    hours: parseField(fields[1], "hour", 0, 23),
+    daysOfMonth: parseField(fields[2], "day of month", 1, 31),
+    months: parseField(fields[3], "month", 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+  };
+}
+
+// Standard cron: when both day fields are restricted, a day matching either one runs
+function dayMatches(schedule: CronSchedule, date: Date) {
+  const dom = schedule.daysOfMonth.values.has(date.getDate());
+  const dow = schedule.daysOfWeek.values.has(date.getDay());
+  if (schedule.daysOfMonth.any) return dow;
+  if (schedule.daysOfWeek.any) return dom;
+  return dom || dow;
+}
+
+/** The first time strictly after `after` that the expression matches */
+export function nextRun(expression: string | CronSchedule, after: Date = new Date()) {
+  const schedule = typeof expression === "string" ? parseCron(expression) : expression;
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + SEARCH_YEARS);
+
+  while (date <= limit) {
+    if (!schedule.months.values.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.values.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.values.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  throw new CronError("Cron expression never matches");
+}
+
+/** The next `count` run times, for previews */
+export function upcomingRuns(expression: string, count: number, after: Date = new Date()) {
+  const schedule = parseCron(expression);
+  const runs: Date[] = [];
+  let cursor = after;
+  for (let i = 0; i < count; i++) {
+    cursor = nextRun(schedule, cursor);
+    runs.push(cursor);
+  }
+  return runs;
+}
@@ -0,0 +1,38 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { geminiProvider } from "./gemini";
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+// Stream the given response chunks back as server-sent events, keeping each request body
+function mockGemini(replies: unknown[][]) {
+  const bodies: any[] = [];
+  globalThis.fetch = (async (_url: string, init: RequestInit) => {
+    bodies.push(JSON.parse(String(init.body)));
+    const events = replies[bodies.length - 1].map((chunk) => `data: ${JSON.stringify(chunk)}\r\n\r\n`).join("");
+    return new Response(events, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+  }) as typeof fetch;
+  return bodies;
+}
+
+test("calls without ids get distinct ids, and responses go back without them", async () => {
+  process.env.GEMINI_API_KEY = "test-key";
+  const call = (query: string) => ({ functionCall: { name: "recall_facts", args: { query } } });
+  const bodies = mockGemini([
+    [{ candidates: [{ content: { role: "model", parts: [call("repo"), call("email")] } }] }],
+    [{ candidates: [{ content: { role: "model", parts: [{ text: "Done." }] } }] }],
+  ]);
+
+  const chat = geminiProvider.createChat({ systemInstruction: "", functions: [], history: [] });
+  const turn = await chat.send("What do you know?", () => {});
+  const ids = turn.functionCalls.map((c) => c.id);
+  assert.equal(new Set(ids).size, 2);
+  assert.deepEqual(turn.functionCalls.map((c) => c.args), [{ query: "repo" }, { query: "email" }]);
+
+  await chat.send(turn.functionCalls.map((c) => ({ id: c.id, name: c.name, response: { ok: true } })), () => {});
+  const responses = bodies[1].contents.at(-1).parts.map((p: any) => p.functionResponse);
+  assert.deepEqual(responses.map((r: any) => [r.id, r.name]), [[undefined, "recall_facts"], [undefined, "recall_facts"]]);
+});
@@ -0,0 +1,106 @@
+import { GoogleGenAI, GenerateContentResponse, Tool } from "@google/genai";
+import type { ModelProvider, ModelTurn, Source } from "./types";
+
+function chunkText(chunk: GenerateContentResponse) {
+  const parts = chunk.candidates?.[0]?.content?.parts || [];
+  return parts.filter((p) => p.text && !p.thought).map((p) => p.text).join("");
+}
+
+function chunkSources(chunk: GenerateContentResponse): Source[] {
+  const chunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  return chunks
+    .filter((c) => c.web?.uri)
+    .map((c) => ({ uri: c.web!.uri!, title: c.web!.title || c.web!.uri! }));
+}
+
+const DEFAULT_MODEL = "gemini-3-flash-preview";
+
+export const geminiProvider: ModelProvider = {
+  name: "gemini",
+  defaultModel: DEFAULT_MODEL,
+
+  configError() {
+    if (process.env.GEMINI_API_KEY) return null;
+    return "## API Key Missing\n\nNo Gemini API key was found in the server environment. \n\n**To resolve this:**\n1. Set `GEMINI_API_KEY` in the server's `.env` file or secrets.\n2. Restart the server.\n3. Once set, you can start interacting with Nexus.";
+  },
+
+  createChat({ model, temperature, systemInstruction, functions, history, webSearch }) {
+    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+    const tools: Tool[] = [];
+    if (webSearch) tools.push({ googleSearch: {} });
+    if (functions.length) {
+      tools.push({
+        functionDeclarations: functions.map((f) => ({
+          name: f.name,
+          description: f.description,
+          parametersJsonSchema: f.parameters,
+        })),
+      });
+    }
+
+    const config = { tools, systemInstruction, temperature };
+    const chat = ai.chats.create({
+      model: model || DEFAULT_MODEL,
+      history: history.map((m) => ({ role: m.role, parts: [{ text: m.text }] })),
+      config,
+    });
+
+    // Gemini usually leaves call ids out, so calls get our own ids; responses go back with whatever Gemini sent
+    const geminiIds = new Map<string, string | undefined>();
+    const originalId = (id?: string) => (id && geminiIds.has(id) ? geminiIds.get(id) : id);
+    let turns = 0;
+
+    return {
+      async send(input, onText, signal) {
+        const message = typeof input === "string"
+          ? input
+          : input.map((r) => ({ functionResponse: { id: originalId(r.id), name: r.name, response: r.response } }));
+        const position = turns++;
+        // A per-message config replaces the chat's rather than extending it
+        const stream = await chat.sendMessageStream({ message, config: { ...config, abortSignal: signal } });
+        const turn: ModelTurn = { text: "", functionCalls: [], sources: [] };
+
+        for await (const chunk of stream) {
+          const text = chunkText(chunk);
+          if (text) {
+            turn.text += text;
+            onText(text);
+          }
+          for (const call of chunk.functionCalls || []) {
+            const id = `gemini_${position}_${turn.functionCalls.length}`;
+            geminiIds.set(id, call.id);
+            turn.functionCalls.push({ id, name: call.name!, args: call.args || {} });
+          }
+          turn.sources.push(...chunkSources(chunk));
+          // Usage is cumulative, so the last chunk's figures cover the whole turn
+          if (chunk.usageMetadata) {
+            const { promptTokenCount = 0, candidatesTokenCount = 0, thoughtsTokenCount = 0 } = chunk.usageMetadata;
+            turn.usage = { inputTokens: promptTokenCount, outputTokens: candidatesTokenCount + thoughtsTokenCount };
+          }
+        }
+
+        return turn;
+      },
+    };
+  },
+
+  describeError(error) {
+    if (error.message?.includes("429") || error.message?.includes("RESOURCE_EXHAUSTED")) {
+      return "## Quota Exhausted\n\nYou've reached the rate limit for the configured Gemini API key. \n\n**To continue:**\n1. Wait a minute and try again.\n2. Ask your administrator to switch the server to a paid Google Cloud project with billing enabled.";
+    }
+    if (error.message?.includes("API_KEY_INVALID") || error.message?.includes("invalid API key")) {
+      return "## Invalid API Key\n\nThe Gemini API key configured on the server is invalid or has expired.\n\n**To fix this:**\n1. Set a valid `GEMINI_API_KEY` in the server environment.\n2. Restart the server and try your request again.";
+    }
+    if (error.message?.includes("500") || error.message?.includes("INTERNAL")) {
+      return "## Gemini Internal Error\n\nThe Gemini API encountered an internal error. This is usually temporary.\n\n**Suggestions:**\n1. Wait a few seconds and try again.\n2. Simplify your request.";
+    }
+    return null;
+  },
+
+  isTransient(error) {
+    return error.message?.includes("500") ||
+           error.message?.includes("INTERNAL") ||
+           error.message?.includes("Service Unavailable") ||
+           error.message?.includes("Deadline Exceeded");
+  },
+};
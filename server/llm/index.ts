@@ -0,0 +1,33 @@
+import { geminiProvider } from "./gemini";
+import { openaiProvider } from "./openai";
+import { mockProvider, recordingProvider } from "./mock";
+import type { ModelProvider } from "./types";
+
+const modelProviders: Record<string, ModelProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  mock: mockProvider,
+};
+
+/** The backend selected with LLM_PROVIDER (default gemini) */
+export function getModelProvider() {
+  const name = process.env.LLM_PROVIDER || "gemini";
+  const provider = modelProviders[name];
+  if (!provider) throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+
+  const recordPath = process.env.LLM_RECORD_PATH;
+  return recordPath ? recordingProvider(provider, recordPath) : provider;
+}
+
+export type {
+  ChatOptions,
+  FunctionSpec,
+  HistoryMessage,
+  ModelChat,
+  ModelFunctionCall,
+  ModelFunctionResponse,
+  ModelProvider,
+  ModelTurn,
+  Source,
+  TokenUsage,
+} from "./types";
@@ -0,0 +1,119 @@
+import fs from "fs";
+import type { ModelFunctionCall, ModelProvider, Source, TokenUsage } from "./types";
+
+/**
+ * Scripted model for offline development and deterministic runs of the agent loop.
+ * MOCK_LLM_SCRIPT points at a JSON array of turns that every chat replays in order:
+ *
+ *   [
+ *     { "functionCalls": [{ "name": "list_github_repos", "args": { "limit": 3 } }] },
+ *     { "text": "You have three repositories." }
+ *   ]
+ *
+ * A turn can also set "delayMs" to simulate a slow model and "usage" to report token counts;
+ * otherwise usage is estimated at four characters per token.
+ *
+ * Without a script the mock echoes the user's message. Scripts can be captured from a
+ * real backend with LLM_RECORD_PATH (see recordingProvider).
+ */
+
+export interface ScriptedTurn {
+  text?: string;
+  functionCalls?: { id?: string; name: string; args?: Record<string, unknown> }[];
+  sources?: Source[];
+  delayMs?: number;
+  usage?: TokenUsage;
+}
+
+// Wait like a slow backend would, giving up as soon as the request is cancelled
+function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+function loadScript(): ScriptedTurn[] | null {
+  const path = process.env.MOCK_LLM_SCRIPT;
+  if (!path) return null;
+  const script = JSON.parse(fs.readFileSync(path, "utf8"));
+  if (!Array.isArray(script)) throw new Error(`MOCK_LLM_SCRIPT ${path} must contain a JSON array of turns`);
+  return script;
+}
+
+export const mockProvider: ModelProvider = {
+  name: "mock",
+  defaultModel: "mock",
+
+  configError() {
+    return null;
+  },
+
+  createChat() {
+    // Read on every chat so a script can be edited without restarting the server
+    const script = loadScript();
+    let position = 0;
+
+    return {
+      async send(input, onText, signal) {
+        let turn: ScriptedTurn;
+        if (!script) {
+          turn = { text: typeof input === "string" ? `Mock response to: ${input}` : "Mock tool results received." };
+        } else {
+          turn = script[position++] ?? { text: "The mock script has no more turns." };
+        }
+
+        // Stream word by word so clients see the same token events as with a real model
+        const text = turn.text || "";
+        const pieces = text.match(/\S+\s*/g) || [];
+        const pause = turn.delayMs ? turn.delayMs / Math.max(pieces.length, 1) : 0;
+        if (!pieces.length && pause) await delay(pause, signal);
+        for (const piece of pieces) {
+          if (pause) await delay(pause, signal);
+          signal?.throwIfAborted();
+          onText(piece);
+        }
+
+        const functionCalls: ModelFunctionCall[] = (turn.functionCalls || []).map((call, i) => ({
+          id: call.id || `mock_${position}_${i}`,
+          name: call.name,
+          args: call.args || {},
+        }));
+        const usage = turn.usage ?? {
+          inputTokens: estimateTokens(typeof input === "string" ? input : JSON.stringify(input)),
+          outputTokens: estimateTokens(text + JSON.stringify(functionCalls)),
+        };
+        return { text, functionCalls, sources: turn.sources || [], usage };
+      },
+    };
+  },
+};
+
+/** Wrap a provider so each chat's turns are written to path as a replayable mock script */
+export function recordingProvider(provider: ModelProvider, path: string): ModelProvider {
+  return {
+    ...provider,
+    createChat(options) {
+      const chat = provider.createChat(options);
+      const turns: ScriptedTurn[] = [];
+      return {
+        async send(input, onText, signal) {
+          const turn = await chat.send(input, onText, signal);
+          turns.push({
+            ...(turn.text ? { text: turn.text } : {}),
+            ...(turn.functionCalls.length ? { functionCalls: turn.functionCalls } : {}),
+            ...(turn.sources.length ? { sources: turn.sources } : {}),
+          });
+          fs.writeFileSync(path, JSON.stringify(turns, null, 2));
+          return turn;
+        },
+      };
+    },
+  };
+}
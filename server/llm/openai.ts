@@ -0,0 +1,147 @@
+import type { ModelProvider, ModelTurn } from "./types";
+
+/**
+ * Adapter for the OpenAI chat completions API, which most local model servers
+ * (Ollama, llama.cpp, vLLM, LM Studio) also implement. Web search grounding is not
+ * available through this API, so turns never carry sources.
+ */
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+const baseUrl = () => (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, "");
+
+interface PartialToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+function parseArgs(raw: string) {
+  try {
+    const args = JSON.parse(raw || "{}");
+    return args && typeof args === "object" && !Array.isArray(args) ? args : {};
+  } catch {
+    return {};
+  }
+}
+
+// Yield the JSON payload of each "data:" line in a server-sent event stream
+async function* readEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop()!;
+    for (const line of lines) {
+      const data = line.trim().replace(/^data:\s*/, "");
+      if (!line.startsWith("data:") || data === "[DONE]") continue;
+      yield JSON.parse(data);
+    }
+  }
+}
+
+export const openaiProvider: ModelProvider = {
+  name: "openai",
+  defaultModel: DEFAULT_MODEL,
+
+  configError() {
+    // Local servers usually need no key, so a base URL on its own is enough
+    if (process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL) return null;
+    return "## Model Not Configured\n\nThe server is set to use an OpenAI-compatible model, but no endpoint is configured.\n\n**To resolve this:**\n1. Set `OPENAI_BASE_URL` to a local model server, or `OPENAI_API_KEY` for OpenAI.\n2. Restart the server.";
+  },
+
+  createChat({ model, temperature, systemInstruction, functions, history }) {
+    const messages: any[] = [
+      { role: "system", content: systemInstruction },
+      ...history.map((m) => ({ role: m.role === "model" ? "assistant" : "user", content: m.text })),
+    ];
+    const tools = functions.map((f) => ({
+      type: "function",
+      function: { name: f.name, description: f.description, parameters: f.parameters },
+    }));
+
+    return {
+      async send(input, onText, signal) {
+        const added = typeof input === "string"
+          ? [{ role: "user", content: input }]
+          : input.map((r) => ({ role: "tool", tool_call_id: r.id, content: JSON.stringify(r.response) }));
+
+        const apiKey = process.env.OPENAI_API_KEY;
+        const response = await fetch(`${baseUrl()}/chat/completions`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: model || DEFAULT_MODEL,
+            messages: [...messages, ...added],
+            tools: tools.length ? tools : undefined,
+            temperature,
+            stream: true,
+            stream_options: { include_usage: true },
+          }),
+          signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`OpenAI-compatible API error (${response.status}): ${await response.text()}`);
+        }
+
+        const turn: ModelTurn = { text: "", functionCalls: [], sources: [] };
+        const calls: PartialToolCall[] = [];
+
+        // Tool calls arrive in fragments keyed by index; names and arguments are concatenated
+        for await (const event of readEvents(response.body)) {
+          // Sent in a final chunk with no choices
+          if (event.usage) {
+            turn.usage = { inputTokens: event.usage.prompt_tokens || 0, outputTokens: event.usage.completion_tokens || 0 };
+          }
+          const delta = event.choices?.[0]?.delta;
+          if (!delta) continue;
+          if (delta.content) {
+            turn.text += delta.content;
+            onText(delta.content);
+          }
+          for (const fragment of delta.tool_calls || []) {
+            const call = (calls[fragment.index ?? calls.length] ??= { id: "", name: "", arguments: "" });
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.function?.name) call.name += fragment.function.name;
+            if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+          }
+        }
+
+        calls.forEach((call, i) => (call.id ||= `call_${i}`));
+        turn.functionCalls = calls.map((c) => ({ id: c.id, name: c.name, args: parseArgs(c.arguments) }));
+
+        messages.push(...added, {
+          role: "assistant",
+          content: turn.text || null,
+          ...(calls.length
+            ? { tool_calls: calls.map((c) => ({ id: c.id, type: "function", function: { name: c.name, arguments: c.arguments || "{}" } })) }
+            : {}),
+        });
+        return turn;
+      },
+    };
+  },
+
+  describeError(error) {
+    if (error.message?.includes("fetch failed") || error.message?.includes("ECONNREFUSED")) {
+      return `## Model Server Unreachable\n\nNexus could not reach the model server at \`${baseUrl()}\`.\n\n**To fix this:**\n1. Check that the server is running.\n2. Check \`OPENAI_BASE_URL\` in the server environment.`;
+    }
+    if (error.message?.includes("(401)")) {
+      return "## Invalid API Key\n\nThe model server rejected the configured `OPENAI_API_KEY`.";
+    }
+    return null;
+  },
+
+  isTransient(error) {
+    return /\(5\d\d\)/.test(error.message || "");
+  },
+};
@@ -0,0 +1,71 @@
+import type { JsonSchema } from "../tools/registry";
+
+export interface Source {
+  uri: string;
+  title: string;
+}
+
+export interface FunctionSpec {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ModelFunctionCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ModelFunctionResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** One complete model reply: streamed text, any tool calls it wants made and grounding sources */
+export interface ModelTurn {
+  text: string;
+  functionCalls: ModelFunctionCall[];
+  sources: Source[];
+  /** Tokens billed for the turn, when the backend reports them */
+  usage?: TokenUsage;
+}
+
+export interface HistoryMessage {
+  role: "user" | "model";
+  text: string;
+}
+
+export interface ChatOptions {
+  model?: string;
+  /** Sampling temperature; the backend's default when unset */
+  temperature?: number;
+  systemInstruction: string;
+  functions: FunctionSpec[];
+  history: HistoryMessage[];
+  /** Let the model ground answers with web search where the backend supports it */
+  webSearch?: boolean;
+}
+
+export interface ModelChat {
+  /** Send a user message or the results of the previous turn's tool calls; aborting the signal cancels the request */
+  send(input: string | ModelFunctionResponse[], onText: (text: string) => void, signal?: AbortSignal): Promise<ModelTurn>;
+}
+
+export interface ModelProvider {
+  name: string;
+  defaultModel: string;
+  /** Markdown explaining what is missing from the server configuration, or null when ready */
+  configError(): string | null;
+  createChat(options: ChatOptions): ModelChat;
+  /** Turn a backend error into a markdown explanation for the user, when it is a known failure */
+  describeError?(error: any): string | null;
+  /** Whether a failed request is worth retrying */
+  isTransient?(error: any): boolean;
+}
@@ -0,0 +1,117 @@
+import { randomUUID } from "crypto";
+import { db } from "./db";
+
+export class MemoryError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "MemoryError";
+  }
+}
+
+/** Something the agent remembers about a user across conversations, e.g. their default repo */
+export interface Memory {
+  id: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+}
+
+const CONTENT_LENGTH = 500;
+const MAX_MEMORIES = 200;
+// How many memories go into the system instruction of each run
+const PROMPT_MEMORIES = 20;
+
+const MEMORY_COLUMNS = "id, content, created_at, updated_at";
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "your", "our", "with", "this", "that", "from",
+  "have", "has", "was", "were", "what", "when", "which", "who", "how", "can", "should", "would",
+  "about", "into", "than", "then", "them", "they", "all", "any", "use", "uses", "please",
+]);
+
+// Words kept whole with the characters of emails and repo names, minus sentence punctuation
+function keywords(text: string) {
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}@._-]+/gu) || []).map((w) => w.replace(/^[._-]+|[._-]+$/g, ""));
+  return new Set(words.filter((w) => w.length > 2 && !STOP_WORDS.has(w)));
+}
+
+function validate(content: unknown) {
+  if (typeof content !== "string" || !content.trim()) throw new MemoryError("content is required");
+  const text = content.trim().replace(/\s+/g, " ");
+  if (text.length > CONTENT_LENGTH) throw new MemoryError(`A memory can be at most ${CONTENT_LENGTH} characters`);
+  return text;
+}
+
+export function listMemories(userId: string) {
+  return db
+    .prepare(`SELECT ${MEMORY_COLUMNS} FROM memories WHERE user_id = ? ORDER BY updated_at DESC, rowid DESC`)
+    .all(userId) as Memory[];
+}
+
+function getMemory(userId: string, id: string) {
+  return db.prepare(`SELECT ${MEMORY_COLUMNS} FROM memories WHERE id = ? AND user_id = ?`).get(id, userId) as Memory | undefined;
+}
+
+/** Save a memory; remembering the same thing twice returns the existing one */
+export function createMemory(userId: string, content: unknown) {
+  const text = validate(content);
+  const existing = db
+    .prepare(`SELECT ${MEMORY_COLUMNS} FROM memories WHERE user_id = ? AND lower(content) = lower(?)`)
+    .get(userId, text) as Memory | undefined;
+  if (existing) return { memory: existing, created: false };
+
+  const { count } = db.prepare("SELECT COUNT(*) AS count FROM memories WHERE user_id = ?").get(userId) as { count: number };
+  if (count >= MAX_MEMORIES) {
+    throw new MemoryError(`You can keep at most ${MAX_MEMORIES} memories. Delete some from the Memory panel first.`, 409);
+  }
+
+  const id = randomUUID();
+  db.prepare("INSERT INTO memories (id, user_id, content) VALUES (?, ?, ?)").run(id, userId, text);
+  return { memory: getMemory(userId, id)!, created: true };
+}
+
+export function updateMemory(userId: string, id: string, content: unknown) {
+  const text = validate(content);
+  const changes = db
+    .prepare("UPDATE memories SET content = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?")
+    .run(text, id, userId).changes;
+  if (!changes) throw new MemoryError("Memory not found", 404);
+  return getMemory(userId, id)!;
+}
+
+export function deleteMemory(userId: string, id: string) {
+  return db.prepare("DELETE FROM memories WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+}
+
+export function clearMemories(userId: string) {
+  return db.prepare("DELETE FROM memories WHERE user_id = ?").run(userId).changes;
+}
+
+// Memories sharing keywords with the query, most shared first and most recent first among equals
+function rank(memories: Memory[], query: string) {
+  const terms = keywords(query);
+  return memories
+    .map((memory, order) => {
+      let score = 0;
+      for (const word of keywords(memory.content)) if (terms.has(word)) score++;
+      return { memory, score, order };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ memory }) => memory);
+}
+
+/** Memories matching a query, or the most recent ones when there is no query */
+export function searchMemories(userId: string, query: string, limit: number) {
+  const memories = listMemories(userId);
+  return (keywords(query).size ? rank(memories, query) : memories).slice(0, limit);
+}
+
+/** Memories to show the model for a message: all of them while there are few, otherwise the most relevant topped up with recent ones */
+export function memoriesForPrompt(userId: string, message: string) {
+  const memories = listMemories(userId);
+  if (memories.length <= PROMPT_MEMORIES) return memories;
+  const relevant = rank(memories, message);
+  const picked = new Set(relevant.map((m) => m.id));
+  return [...relevant, ...memories.filter((m) => !picked.has(m.id))].slice(0, PROMPT_MEMORIES);
+}
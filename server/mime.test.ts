@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { addressOf, buildMimeMessage, encodeHeaderValue, MimeError, parseAddressList, splitAddresses } from "./mime";
+
+// The header block of a built message, with folded lines joined back up
+function headers(message: string) {
+  return message.split("\r\n\r\n")[0].replace(/\r\n /g, " ").split("\r\n");
+}
+
+const decodeWords = (value: string) =>
+  value.replace(/=\?UTF-8\?B\?([^?]*)\?=\s*/g, (_, b64) => Buffer.from(b64, "base64").toString("utf8"));
+
+test("line breaks in header fields are refused rather than starting new headers", () => {
+  const base = { to: "ann@example.com", subject: "Hello", text: "Hi" };
+  const attempts = [
+    { ...base, subject: "Hello\r\nBcc: eve@evil.example" },
+    { ...base, subject: "Hello\nBcc: eve@evil.example" },
+    { ...base, to: "ann@example.com\r\nBcc: eve@evil.example" },
+    { ...base, cc: "Ann <ann@example.com>\nX-Injected: 1" },
+    { ...base, inReplyTo: "<a@example.com>\r\nBcc: eve@evil.example" },
+    { ...base, references: ["<a@example.com>", "<b@example.com>\nBcc: eve@evil.example"] },
+    { ...base, attachments: [{ filename: "a.txt\r\nContent-Type: text/html", content: "x" }] },
+  ];
+
+  for (const message of attempts) {
+    assert.throws(() => buildMimeMessage(message), MimeError, JSON.stringify(message));
+  }
+});
+
+test("addresses and message ids must be well formed", () => {
+  assert.throws(() => parseAddressList("To", "not an address"), /invalid email address/);
+  assert.throws(() => parseAddressList("To", "ann@example.com eve@evil.example"), /invalid email address/);
+  assert.throws(() => parseAddressList("To", "Ann <ann@example>"), /invalid email address/);
+  assert.throws(
+    () => buildMimeMessage({ to: "ann@example.com", subject: "Hi", inReplyTo: "<no-at-sign>" }),
+    /invalid message ID/
+  );
+  assert.throws(() => buildMimeMessage({ to: [], subject: "Hi" }), /At least one recipient/);
+});
+
+test("address lists split on commas outside quotes and angle brackets", () => {
+  const list = '"Doe, Jane" <jane@example.com>, bob@example.com,, <odd,name@example.com>';
+  assert.deepEqual(splitAddresses(list), ['"Doe, Jane" <jane@example.com>', "bob@example.com", "<odd,name@example.com>"]);
+  assert.deepEqual(splitAddresses(list).map(addressOf), ["jane@example.com", "bob@example.com", "odd,name@example.com"]);
+});
+
+test("display names with specials are quoted and escaped", () => {
+  assert.deepEqual(parseAddressList("To", ['Jane Q. Doe <jane@example.com>', 'Bob "the builder" <bob@example.com>']), [
+    '"Jane Q. Doe" <jane@example.com>',
+    '"Bob \\"the builder\\"" <bob@example.com>',
+  ]);
+  assert.deepEqual(parseAddressList("To", "Ann Lee <ann@example.com>"), ["Ann Lee <ann@example.com>"]);
+});
+
+test("non-ASCII subjects and names become RFC 2047 encoded-words of at most 75 characters", () => {
+  assert.equal(encodeHeaderValue("Plain subject"), "Plain subject");
+
+  const subject = "Résumé für Zoë — ".repeat(6) + "🎉";
+  const encoded = encodeHeaderValue(subject);
+  const words = encoded.split("\r\n ");
+  assert.ok(words.length > 1);
+  for (const word of words) {
+    assert.match(word, /^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+    assert.ok(word.length <= 75, word);
+  }
+  // Words break on character boundaries, so each one decodes on its own
+  assert.equal(words.map((w) => decodeWords(w)).join(""), subject);
+
+  const message = buildMimeMessage({ to: "Zoë Ångström <zoe@example.com>", subject, text: "Hej" });
+  const lines = headers(message);
+  assert.equal(decodeWords(lines.find((l) => l.startsWith("Subject: "))!.slice(9)), subject);
+  const to = lines.find((l) => l.startsWith("To: "))!;
+  assert.match(to, /^To: =\?UTF-8\?B\?[^?]+\?= <zoe@example\.com>$/);
+  assert.equal(decodeWords(to.slice(4)), "Zoë Ångström<zoe@example.com>");
+});
+
+test("non-ASCII attachment names get an RFC 2231 parameter next to a plain fallback", () => {
+  const message = buildMimeMessage({
+    to: "ann@example.com",
+    subject: "Report",
+    text: "Attached.",
+    attachments: [{ filename: 'Bericht "Q1" Ü.csv', mimeType: "text/csv", content: "a,b" }],
+  });
+  assert.match(message, /Content-Disposition: attachment; filename="Bericht _Q1_ _\.csv"; filename\*=UTF-8''Bericht%20%22Q1%22%20%C3%9C\.csv/);
+});
+
+test("replies carry In-Reply-To and folded References", () => {
+  const lines = buildMimeMessage({
+    to: "ann@example.com",
+    subject: "Re: Plans",
+    text: "Sounds good",
+    inReplyTo: "<b@example.com>",
+    references: ["<a@example.com>", "<b@example.com>"],
+  }).split("\r\n");
+  assert.ok(lines.includes("In-Reply-To: <b@example.com>"));
+  assert.equal(lines[lines.indexOf("References: <a@example.com>") + 1], " <b@example.com>");
+});
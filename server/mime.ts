@@ -0,0 +1,202 @@
+import { randomBytes } from "crypto";
+
+/**
+ * Builds RFC 5322 / MIME messages from model-supplied fields. Every header value is
+ * checked for line breaks so arguments cannot smuggle in extra headers, non-ASCII text
+ * is RFC 2047 encoded and all lines end in CRLF.
+ */
+
+export class MimeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MimeError";
+  }
+}
+
+export interface MimeAttachment {
+  filename: string;
+  mimeType?: string;
+  content: Buffer | string;
+}
+
+export interface MimeMessage {
+  from?: string;
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  subject: string;
+  text?: string;
+  html?: string;
+  inReplyTo?: string;
+  references?: string | string[];
+  attachments?: MimeAttachment[];
+}
+
+const CRLF = "\r\n";
+const ADDR_SPEC = /^[A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+@[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)+$/;
+const MESSAGE_ID = /^<[^<>\s]+@[^<>\s]+>$/;
+const MIME_TYPE = /^[A-Za-z0-9][\w.+-]*\/[A-Za-z0-9][\w.+-]*$/;
+// Characters that force a display name to be quoted (RFC 5322 "specials")
+const SPECIALS = /[()<>\[\]:;@\\,."]/;
+
+const isAscii = (value: string) => /^[\x20-\x7e]*$/.test(value);
+
+function assertSingleLine(field: string, value: string) {
+  if (/[\r\n\0]/.test(value)) throw new MimeError(`${field} must not contain line breaks`);
+}
+
+/** RFC 2047 encoded-words, split on character boundaries so no word exceeds 75 characters */
+export function encodeHeaderValue(value: string) {
+  if (isAscii(value)) return value;
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of value) {
+    // "=?UTF-8?B?" + "?=" is 12 characters, leaving 63 for base64 (45 bytes of UTF-8)
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+  return words.map((w) => `=?UTF-8?B?${Buffer.from(w).toString("base64")}?=`).join(`${CRLF} `);
+}
+
+/** Split an address list on commas that are not inside quotes or angle brackets */
+export function splitAddresses(value: string) {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  let angle = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    else if (char === "<" && !quoted) angle = true;
+    else if (char === ">" && !quoted) angle = false;
+    if (char === "," && !quoted && !angle) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+/** The bare address of one list entry, e.g. "ann@example.com" for "Ann <ann@example.com>" */
+export function addressOf(raw: string) {
+  const match = raw.match(/^(.*)<([^<>]+)>$/);
+  return (match ? match[2] : raw).trim();
+}
+
+function formatAddress(field: string, raw: string) {
+  const match = raw.match(/^(.*)<([^<>]+)>$/);
+  const address = (match ? match[2] : raw).trim();
+  if (!ADDR_SPEC.test(address)) throw new MimeError(`${field} contains an invalid email address: ${raw}`);
+
+  const name = match ? match[1].trim().replace(/^"(.*)"$/, "$1") : "";
+  if (!name) return address;
+  if (!isAscii(name)) return `${encodeHeaderValue(name)} <${address}>`;
+  if (SPECIALS.test(name)) return `"${name.replace(/(["\\])/g, "\\$1")}" <${address}>`;
+  return `${name} <${address}>`;
+}
+
+/** Validate and normalise a list of addresses given as a comma-separated string or an array */
+export function parseAddressList(field: string, value: string | string[] | undefined) {
+  const items = (Array.isArray(value) ? value : [value || ""]).flatMap((v) => {
+    assertSingleLine(field, v);
+    return splitAddresses(v);
+  });
+  return items.map((item) => formatAddress(field, item));
+}
+
+export const isMessageId = (value: string) => MESSAGE_ID.test(value);
+
+function messageIds(field: string, value: string | string[] | undefined) {
+  const ids = (Array.isArray(value) ? value : [value || ""]).flatMap((v) => {
+    assertSingleLine(field, v);
+    return v.split(/\s+/).filter(Boolean);
+  });
+  for (const id of ids) {
+    if (!MESSAGE_ID.test(id)) throw new MimeError(`${field} contains an invalid message ID: ${id}`);
+  }
+  return ids;
+}
+
+// Wrap base64 at 76 characters per RFC 2045
+const base64Body = (content: Buffer | string) => Buffer.from(content).toString("base64").replace(/.{76}/g, `$&${CRLF}`);
+
+function textPart(subtype: "plain" | "html", content: string) {
+  return [
+    `Content-Type: text/${subtype}; charset="UTF-8"`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(content),
+  ].join(CRLF);
+}
+
+// RFC 2231 parameter for non-ASCII file names, with a plain fallback for older clients
+function filenameParams(param: string, filename: string) {
+  assertSingleLine("Attachment filename", filename);
+  const fallback = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  if (isAscii(filename)) return `${param}="${fallback}"`;
+  return `${param}="${fallback}"; ${param}*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+function attachmentPart(attachment: MimeAttachment) {
+  if (!attachment.filename) throw new MimeError("Attachments need a filename");
+  const mimeType = attachment.mimeType || "application/octet-stream";
+  if (!MIME_TYPE.test(mimeType)) throw new MimeError(`Invalid attachment MIME type: ${mimeType}`);
+
+  return [
+    `Content-Type: ${mimeType}; ${filenameParams("name", attachment.filename)}`,
+    `Content-Disposition: attachment; ${filenameParams("filename", attachment.filename)}`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(attachment.content),
+  ].join(CRLF);
+}
+
+function multipart(subtype: "alternative" | "mixed", parts: string[]) {
+  const boundary = `=_nexus_${randomBytes(12).toString("hex")}`;
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    "",
+    ...parts.map((part) => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`,
+    "",
+  ].join(CRLF);
+}
+
+export function buildMimeMessage(message: MimeMessage) {
+  const to = parseAddressList("To", message.to);
+  const cc = parseAddressList("Cc", message.cc);
+  const bcc = parseAddressList("Bcc", message.bcc);
+  if (!to.length) throw new MimeError("At least one recipient is required");
+
+  assertSingleLine("Subject", message.subject);
+  const headers: string[] = [];
+  if (message.from) headers.push(`From: ${parseAddressList("From", message.from).join(", ")}`);
+  headers.push(`To: ${to.join(", ")}`);
+  if (cc.length) headers.push(`Cc: ${cc.join(", ")}`);
+  if (bcc.length) headers.push(`Bcc: ${bcc.join(", ")}`);
+  headers.push(`Subject: ${encodeHeaderValue(message.subject)}`);
+
+  const inReplyTo = messageIds("In-Reply-To", message.inReplyTo);
+  const references = messageIds("References", message.references);
+  if (inReplyTo.length) headers.push(`In-Reply-To: ${inReplyTo.join(" ")}`);
+  if (references.length) headers.push(`References: ${references.join(`${CRLF} `)}`);
+  headers.push("MIME-Version: 1.0");
+
+  const text = (message.text || "").replace(/\r?\n/g, CRLF);
+  let body = message.html
+    ? multipart("alternative", [textPart("plain", text), textPart("html", message.html)])
+    : textPart("plain", text);
+
+  if (message.attachments?.length) {
+    body = multipart("mixed", [body, ...message.attachments.map(attachmentPart)]);
+  }
+
+  return `${headers.join(CRLF)}${CRLF}${body}`;
+}
@@ -0,0 +1,77 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { Request } from "express";
+import { db } from "./db";
+import { sessionKey } from "./auth";
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+// States only live for minutes, so a per-process secret is enough when none is configured
+const fallbackSecret = randomBytes(32);
+const stateSecret = () => process.env.OAUTH_STATE_SECRET || fallbackSecret;
+
+export interface OAuthStart {
+  state: string;
+  /** PKCE code challenge (S256) for providers that support it */
+  codeChallenge?: string;
+}
+
+function sign(nonce: string, provider: string, binding: string) {
+  return createHmac("sha256", stateSecret()).update(`${nonce}.${provider}.${binding}`).digest("base64url");
+}
+
+// Bind to the session cookie when there is one, otherwise to the user (proxy sign-in has no session)
+function bindingFor(req: Request) {
+  return sessionKey(req) || `user:${req.user!.id}`;
+}
+
+/** Create a signed, single-use state for an authorize redirect, with a PKCE verifier when requested */
+export function createOAuthState(req: Request, provider: string, usePkce: boolean): OAuthStart {
+  const nonce = randomBytes(16).toString("base64url");
+  const binding = bindingFor(req);
+  const codeVerifier = usePkce ? randomBytes(32).toString("base64url") : null;
+
+  db.prepare("DELETE FROM oauth_states WHERE expires_at <= ?").run(Date.now());
+  db.prepare(`
+    INSERT INTO oauth_states (nonce, user_id, provider, binding, code_verifier, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(nonce, req.user!.id, provider, binding, codeVerifier, Date.now() + STATE_TTL_MS);
+
+  return {
+    state: `${nonce}.${sign(nonce, provider, binding)}`,
+    codeChallenge: codeVerifier ? createHash("sha256").update(codeVerifier).digest("base64url") : undefined,
+  };
+}
+
+/**
+ * Check a callback's state against the requesting session and consume it.
+ * Returns the PKCE verifier (or null when PKCE was not used), or undefined when the state is invalid.
+ */
+export function consumeOAuthState(req: Request, provider: string, state: unknown): string | null | undefined {
+  if (typeof state !== "string") return undefined;
+  const [nonce, signature] = state.split(".");
+  if (!nonce || !signature) return undefined;
+
+  const binding = bindingFor(req);
+  const expected = Buffer.from(sign(nonce, provider, binding));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return undefined;
+
+  const row = db.prepare("SELECT * FROM oauth_states WHERE nonce = ?").get(nonce) as
+    | { user_id: string; provider: string; binding: string; code_verifier: string | null; expires_at: number }
+    | undefined;
+  // Single use: delete before checking so a replay fails even if this attempt does
+  db.prepare("DELETE FROM oauth_states WHERE nonce = ?").run(nonce);
+
+  if (!row || row.expires_at <= Date.now()) return undefined;
+  if (row.provider !== provider || row.binding !== binding || row.user_id !== req.user!.id) return undefined;
+  return row.code_verifier;
+}
+
+/** Origin the OAuth popup may post its result to */
+export function appOrigin() {
+  try {
+    return new URL(process.env.APP_URL || "").origin;
+  } catch {
+    throw new Error("APP_URL must be set to the app's absolute URL");
+  }
+}
@@ -0,0 +1,164 @@
+import { randomUUID } from "crypto";
+import { db } from "./db";
+import { getTool } from "./tools";
+import type { ToolDefinition } from "./tools";
+import { getProvider } from "./providers";
+
+export class ProfileError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ProfileError";
+  }
+}
+
+/**
+ * A named agent setup picked in the header. Empty or null fields fall back to the defaults:
+ * the built-in system prompt, LLM_MODEL, the backend's temperature and every tool.
+ */
+export interface AgentProfile {
+  id: string;
+  name: string;
+  system_prompt: string;
+  model: string;
+  temperature: number | null;
+  /** Tool names the agent may use, or null for all of them */
+  tools: string[] | null;
+  /** Connected apps whose tools the agent may use, or null for all of them; built-in tools are not tied to one */
+  connectors: string[] | null;
+  web_search: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProfileInput {
+  name?: unknown;
+  system_prompt?: unknown;
+  model?: unknown;
+  temperature?: unknown;
+  tools?: unknown;
+  connectors?: unknown;
+  web_search?: unknown;
+}
+
+const NAME_LENGTH = 40;
+const PROMPT_LENGTH = 20_000;
+const MODEL_LENGTH = 100;
+
+const PROFILE_COLUMNS = "id, name, system_prompt, model, temperature, tools, connectors, web_search, created_at, updated_at";
+
+function toProfile(row: any): AgentProfile {
+  return {
+    ...row,
+    tools: row.tools === null ? null : JSON.parse(row.tools),
+    connectors: row.connectors === null ? null : JSON.parse(row.connectors),
+    web_search: !!row.web_search,
+  };
+}
+
+function nameList(value: unknown, field: string, exists: (name: string) => boolean, kind: string) {
+  if (value === undefined || value === null) return null;
+  if (!Array.isArray(value) || value.some((name) => typeof name !== "string")) {
+    throw new ProfileError(`${field} must be a list of names, or null for all`);
+  }
+  const unknown = value.filter((name) => !exists(name));
+  if (unknown.length) throw new ProfileError(`Unknown ${kind}: ${unknown.join(", ")}`);
+  return [...new Set(value as string[])];
+}
+
+function validate(input: ProfileInput) {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name || name.length > NAME_LENGTH) throw new ProfileError(`name is required and must be at most ${NAME_LENGTH} characters`);
+
+  const systemPrompt = input.system_prompt ?? "";
+  if (typeof systemPrompt !== "string" || systemPrompt.length > PROMPT_LENGTH) {
+    throw new ProfileError(`system_prompt must be text of at most ${PROMPT_LENGTH} characters`);
+  }
+  const model = input.model ?? "";
+  if (typeof model !== "string" || model.length > MODEL_LENGTH) {
+    throw new ProfileError(`model must be a model name of at most ${MODEL_LENGTH} characters`);
+  }
+
+  const temperature = input.temperature === "" || input.temperature === undefined ? null : input.temperature;
+  if (temperature !== null && (typeof temperature !== "number" || !(temperature >= 0 && temperature <= 2))) {
+    throw new ProfileError("temperature must be a number from 0 to 2, or null for the model's default");
+  }
+  if (input.web_search !== undefined && typeof input.web_search !== "boolean") {
+    throw new ProfileError("web_search must be a boolean");
+  }
+
+  return {
+    name,
+    system_prompt: systemPrompt.trim(),
+    model: model.trim(),
+    temperature,
+    tools: nameList(input.tools, "tools", (n) => !!getTool(n), "tools"),
+    connectors: nameList(input.connectors, "connectors", (n) => !!getProvider(n), "connectors"),
+    web_search: input.web_search ?? true,
+  };
+}
+
+type ValidProfile = ReturnType<typeof validate>;
+
+function columnValues(profile: ValidProfile) {
+  return [
+    profile.name,
+    profile.system_prompt,
+    profile.model,
+    profile.temperature,
+    profile.tools && JSON.stringify(profile.tools),
+    profile.connectors && JSON.stringify(profile.connectors),
+    profile.web_search ? 1 : 0,
+  ];
+}
+
+export function listProfiles(userId: string) {
+  const rows = db.prepare(`SELECT ${PROFILE_COLUMNS} FROM agent_profiles WHERE user_id = ? ORDER BY name`).all(userId);
+  return rows.map(toProfile);
+}
+
+export function getProfile(userId: string, id: string) {
+  const row = db.prepare(`SELECT ${PROFILE_COLUMNS} FROM agent_profiles WHERE id = ? AND user_id = ?`).get(id, userId);
+  return row ? toProfile(row) : undefined;
+}
+
+function findByName(userId: string, name: string) {
+  return db.prepare("SELECT id FROM agent_profiles WHERE user_id = ? AND lower(name) = lower(?)").get(userId, name) as { id: string } | undefined;
+}
+
+export function createProfile(userId: string, input: ProfileInput) {
+  const profile = validate(input);
+  if (findByName(userId, profile.name)) throw new ProfileError(`A profile named "${profile.name}" already exists`, 409);
+
+  const id = randomUUID();
+  db.prepare(`
+    INSERT INTO agent_profiles (id, user_id, name, system_prompt, model, temperature, tools, connectors, web_search)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(id, userId, ...columnValues(profile));
+  return getProfile(userId, id)!;
+}
+
+export function updateProfile(userId: string, id: string, input: ProfileInput) {
+  const current = getProfile(userId, id);
+  if (!current) throw new ProfileError("Profile not found", 404);
+  const profile = validate({ ...current, ...input });
+  const clash = findByName(userId, profile.name);
+  if (clash && clash.id !== id) throw new ProfileError(`A profile named "${profile.name}" already exists`, 409);
+
+  db.prepare(`
+    UPDATE agent_profiles
+    SET name = ?, system_prompt = ?, model = ?, temperature = ?, tools = ?, connectors = ?, web_search = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(...columnValues(profile), id);
+  return getProfile(userId, id)!;
+}
+
+export function deleteProfile(userId: string, id: string) {
+  return db.prepare("DELETE FROM agent_profiles WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+}
+
+/** Whether a run with this profile may see and call a tool; no profile allows everything */
+export function profileAllowsTool(profile: AgentProfile | undefined, tool: ToolDefinition) {
+  if (!profile) return true;
+  if (tool.provider !== null && profile.connectors && !profile.connectors.includes(tool.provider)) return false;
+  return !profile.tools || profile.tools.includes(tool.name);
+}
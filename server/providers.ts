@@ -0,0 +1,208 @@
+/**
+ * Declarative OAuth provider definitions. Each entry drives the generic
+ * /api/auth/:provider routes, token refresh and the Connectors sidebar, so adding
+ * a provider is a config entry here plus the tools that use it.
+ */
+export interface OAuthProviderDefinition {
+  id: string;
+  /** Name shown in the Connectors sidebar */
+  label: string;
+  description: string;
+  /** Icon key understood by the client */
+  icon: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  /** How the client credentials are sent to the token endpoint */
+  clientAuth: "body" | "basic";
+  tokenRequestFormat: "form" | "json";
+  scopes: string[];
+  scopeSeparator?: string;
+  extraAuthorizeParams?: Record<string, string>;
+  pkce: boolean;
+  /** Whether expired access tokens can be renewed with a refresh token */
+  refresh: boolean;
+  /** Endpoint returning the connected account; without it the token response is used */
+  profileUrl?: string;
+  /** First field present in the profile (or token response) names the connected account */
+  accountFields: string[];
+}
+
+/** The token endpoint turned a request down; code is the OAuth error, e.g. "invalid_grant" */
+export class TokenRequestError extends Error {
+  constructor(message: string, public status: number, public code?: string) {
+    super(message);
+    this.name = "TokenRequestError";
+  }
+
+  /**
+   * Whether the grant itself was refused, rather than the provider failing to answer. Only an OAuth
+   * error on a 400 or 401 counts: 408 and 429 say to try again later, not that the grant is gone.
+   */
+  get rejected() {
+    return this.code === "invalid_grant" || ((this.status === 400 || this.status === 401) && !!this.code);
+  }
+}
+
+export interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+  [key: string]: unknown;
+}
+
+const providers: OAuthProviderDefinition[] = [
+  {
+    id: "github",
+    label: "GitHub",
+    description: "Repos, Issues, PRs",
+    icon: "github",
+    authorizeUrl: "https://github.com/login/oauth/authorize",
+    tokenUrl: "https://github.com/login/oauth/access_token",
+    clientAuth: "body",
+    tokenRequestFormat: "json",
+    scopes: ["repo", "user"],
+    scopeSeparator: ",",
+    pkce: true,
+    refresh: false,
+    profileUrl: "https://api.github.com/user",
+    accountFields: ["login"],
+  },
+  {
+    id: "google",
+    label: "Gmail",
+    description: "Email & Calendar",
+    icon: "mail",
+    authorizeUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+    clientAuth: "body",
+    tokenRequestFormat: "json",
+    scopes: [
+      "https://www.googleapis.com/auth/gmail.send",
+      "https://www.googleapis.com/auth/gmail.readonly",
+      "https://www.googleapis.com/auth/gmail.compose",
+      "https://www.googleapis.com/auth/userinfo.email",
+      "openid",
+    ],
+    extraAuthorizeParams: { access_type: "offline", prompt: "consent" },
+    pkce: true,
+    refresh: true,
+    profileUrl: "https://www.googleapis.com/oauth2/v2/userinfo",
+    accountFields: ["email"],
+  },
+  {
+    id: "notion",
+    label: "Notion",
+    description: "Docs & Projects",
+    icon: "notion",
+    authorizeUrl: "https://api.notion.com/v1/oauth/authorize",
+    tokenUrl: "https://api.notion.com/v1/oauth/token",
+    clientAuth: "basic",
+    tokenRequestFormat: "json",
+    scopes: [],
+    extraAuthorizeParams: { owner: "user" },
+    // Notion does not support PKCE, so only the state parameter protects this flow
+    pkce: false,
+    refresh: false,
+    accountFields: ["workspace_name", "workspace_id"],
+  },
+];
+
+export function listProviders() {
+  return providers;
+}
+
+export function getProvider(id: string) {
+  return providers.find((p) => p.id === id);
+}
+
+export function clientCredentials(provider: OAuthProviderDefinition) {
+  const prefix = provider.id.toUpperCase();
+  return {
+    clientId: process.env[`${prefix}_CLIENT_ID`],
+    clientSecret: process.env[`${prefix}_CLIENT_SECRET`],
+  };
+}
+
+export function isConfigured(provider: OAuthProviderDefinition) {
+  return !!clientCredentials(provider).clientId;
+}
+
+export function redirectUri(provider: OAuthProviderDefinition) {
+  return `${process.env.APP_URL}/api/auth/${provider.id}/callback`;
+}
+
+export function buildAuthorizeUrl(provider: OAuthProviderDefinition, state: string, codeChallenge?: string) {
+  const params = new URLSearchParams({
+    client_id: clientCredentials(provider).clientId!,
+    redirect_uri: redirectUri(provider),
+    response_type: "code",
+    state,
+    ...provider.extraAuthorizeParams,
+  });
+  if (provider.scopes.length) params.set("scope", provider.scopes.join(provider.scopeSeparator ?? " "));
+  if (codeChallenge) {
+    params.set("code_challenge", codeChallenge);
+    params.set("code_challenge_method", "S256");
+  }
+  return `${provider.authorizeUrl}?${params}`;
+}
+
+async function requestToken(provider: OAuthProviderDefinition, params: Record<string, string>): Promise<TokenResponse> {
+  const { clientId, clientSecret } = clientCredentials(provider);
+  const headers: Record<string, string> = { Accept: "application/json" };
+  const body: Record<string, string> = { ...params };
+
+  if (provider.clientAuth === "basic") {
+    headers.Authorization = `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`;
+  } else {
+    body.client_id = clientId || "";
+    body.client_secret = clientSecret || "";
+  }
+
+  headers["Content-Type"] = provider.tokenRequestFormat === "json" ? "application/json" : "application/x-www-form-urlencoded";
+  const response = await fetch(provider.tokenUrl, {
+    method: "POST",
+    headers,
+    body: provider.tokenRequestFormat === "json" ? JSON.stringify(body) : new URLSearchParams(body).toString(),
+  });
+
+  // Gateways answer outages with HTML error pages
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.error) {
+    throw new TokenRequestError(data.error_description || data.error || `Token request failed (${response.status})`, response.status, data.error);
+  }
+  return data;
+}
+
+export function exchangeCode(provider: OAuthProviderDefinition, code: string, codeVerifier: string | null) {
+  return requestToken(provider, {
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri(provider),
+    ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
+  });
+}
+
+export function refreshAccessToken(provider: OAuthProviderDefinition, refreshToken: string) {
+  return requestToken(provider, { grant_type: "refresh_token", refresh_token: refreshToken });
+}
+
+/** Name of the account a token belongs to, e.g. a GitHub login or a Google email address */
+export async function resolveAccount(provider: OAuthProviderDefinition, token: TokenResponse) {
+  let source: Record<string, unknown> = token;
+  if (provider.profileUrl) {
+    const response = await fetch(provider.profileUrl, {
+      headers: {
+        Authorization: `Bearer ${token.access_token}`,
+        Accept: "application/json",
+        "User-Agent": "Nexus-Agent",
+      },
+    });
+    if (!response.ok) throw new Error(`Failed to load ${provider.label} profile (${response.status})`);
+    source = await response.json();
+  }
+
+  const field = provider.accountFields.find((f) => typeof source[f] === "string" && source[f]);
+  return field ? (source[field] as string) : provider.id;
+}
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { registerUser } from "./auth";
+import { db } from "./db";
+import { createScheduledTask, listScheduledRuns, runDueTasks } from "./scheduler";
+
+// Without a script the mock model just echoes the prompt
+process.env.LLM_PROVIDER = "mock";
+delete process.env.MOCK_LLM_SCRIPT;
+
+const user = registerUser("scheduler-test", "correct horse battery");
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test("a task that fails to start is recorded without holding up the other due tasks", async () => {
+  const broken = createScheduledTask(user.id, { name: "Broken", prompt: "Check the build", cron: "0 9 * * *" });
+  const healthy = createScheduledTask(user.id, { name: "Healthy", prompt: "Summarise my inbox", cron: "0 9 * * *" });
+  // Both are due, and the first one's stored settings can no longer be read
+  db.prepare("UPDATE scheduled_tasks SET next_run_at = ? WHERE id IN (?, ?)").run(Date.now() - 1000, broken.id, healthy.id);
+  db.prepare("UPDATE scheduled_tasks SET allowed_tools = ? WHERE id = ?").run("not json", broken.id);
+
+  runDueTasks();
+
+  const [failed] = listScheduledRuns(user.id, broken.id);
+  assert.equal(failed.status, "error");
+  assert.ok(failed.error);
+  assert.ok(failed.finished_at);
+
+  const [started] = listScheduledRuns(user.id, healthy.id);
+  assert.ok(started);
+  for (let i = 0; i < 50 && listScheduledRuns(user.id, healthy.id)[0].status === "running"; i++) await sleep(20);
+  assert.equal(listScheduledRuns(user.id, healthy.id)[0].status, "success");
+
+  // Both moved on to their next slot rather than being picked up again
+  const nextRuns = db.prepare("SELECT next_run_at FROM scheduled_tasks WHERE id IN (?, ?)").all(broken.id, healthy.id) as any[];
+  assert.ok(nextRuns.every((row) => row.next_run_at > Date.now()));
+});
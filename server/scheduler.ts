@@ -0,0 +1,264 @@
+import { randomUUID } from "crypto";
+import { db } from "./db";
+import { failInterruptedRuns, parseAllowedTools, recordOutcome, RunConfigError, RunStatus, runTitle, startBackgroundRun } from "./backgroundRuns";
+import { CronError, nextRun, upcomingRuns } from "./cron";
+
+export class ScheduleError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ScheduleError";
+  }
+}
+
+export type RunTrigger = "schedule" | "manual";
+
+export interface ScheduledTask {
+  id: string;
+  name: string;
+  prompt: string;
+  cron: string;
+  /** Mutating tools the task may use without approval; anything else is rejected */
+  allowed_tools: string[];
+  enabled: boolean;
+  next_run_at: number | null;
+  last_run_at: number | null;
+  created_at: string;
+  /** The next few times the cron expression fires, whether or not the task is paused */
+  upcoming: number[];
+  running: boolean;
+}
+
+export interface ScheduledRun {
+  id: string;
+  task_id: string;
+  task_name: string;
+  conversation_id: string | null;
+  trigger: RunTrigger;
+  status: RunStatus;
+  output: string | null;
+  error: string | null;
+  started_at: number;
+  finished_at: number | null;
+}
+
+export interface TaskInput {
+  name?: unknown;
+  prompt?: unknown;
+  cron?: unknown;
+  allowed_tools?: unknown;
+}
+
+const TICK_INTERVAL_MS = 30_000;
+const NAME_LENGTH = 100;
+const PROMPT_LENGTH = 10_000;
+const UPCOMING_COUNT = 3;
+const MAX_RUNS = 200;
+
+// Tasks with a run in progress, so a slow run is never started twice
+const running = new Set<string>();
+
+function toTask(row: any): ScheduledTask {
+  let upcoming: number[] = [];
+  try {
+    upcoming = upcomingRuns(row.cron, UPCOMING_COUNT).map((date) => date.getTime());
+  } catch {
+    // Stored expressions were validated on save; an unmatchable one just has no upcoming runs
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    prompt: row.prompt,
+    cron: row.cron,
+    allowed_tools: row.allowed_tools ? JSON.parse(row.allowed_tools) : [],
+    enabled: !!row.enabled,
+    next_run_at: row.next_run_at,
+    last_run_at: row.last_run_at,
+    created_at: row.created_at,
+    upcoming,
+    running: running.has(row.id),
+  };
+}
+
+function nextRunAt(cron: string, after = new Date()) {
+  try {
+    return nextRun(cron, after).getTime();
+  } catch (error) {
+    if (error instanceof CronError) throw new ScheduleError(`Invalid schedule: ${error.message}`);
+    throw error;
+  }
+}
+
+function text(value: unknown, field: string, maxLength: number) {
+  if (typeof value !== "string" || !value.trim()) throw new ScheduleError(`${field} is required`);
+  if (value.length > maxLength) throw new ScheduleError(`${field} must be at most ${maxLength} characters`);
+  return value.trim();
+}
+
+function allowedTools(value: unknown) {
+  try {
+    return parseAllowedTools(value);
+  } catch (error) {
+    if (error instanceof RunConfigError) throw new ScheduleError(error.message);
+    throw error;
+  }
+}
+
+export function listScheduledTasks(userId: string) {
+  const rows = db.prepare("SELECT * FROM scheduled_tasks WHERE user_id = ? ORDER BY created_at").all(userId);
+  return rows.map(toTask);
+}
+
+export function getScheduledTask(userId: string, id: string) {
+  const row = db.prepare("SELECT * FROM scheduled_tasks WHERE id = ? AND user_id = ?").get(id, userId);
+  return row ? toTask(row) : undefined;
+}
+
+function requireTask(userId: string, id: string) {
+  const task = getScheduledTask(userId, id);
+  if (!task) throw new ScheduleError("Scheduled task not found", 404);
+  return task;
+}
+
+export function createScheduledTask(userId: string, input: TaskInput) {
+  const name = text(input.name, "name", NAME_LENGTH);
+  const prompt = text(input.prompt, "prompt", PROMPT_LENGTH);
+  const cron = text(input.cron, "cron", NAME_LENGTH);
+  const tools = allowedTools(input.allowed_tools);
+
+  const id = randomUUID();
+  db.prepare(`
+    INSERT INTO scheduled_tasks (id, user_id, name, prompt, cron, allowed_tools, next_run_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(id, userId, name, prompt, cron, JSON.stringify(tools), nextRunAt(cron));
+  return getScheduledTask(userId, id)!;
+}
+
+export function updateScheduledTask(userId: string, id: string, input: TaskInput) {
+  const task = requireTask(userId, id);
+  const name = input.name === undefined ? task.name : text(input.name, "name", NAME_LENGTH);
+  const prompt = input.prompt === undefined ? task.prompt : text(input.prompt, "prompt", PROMPT_LENGTH);
+  const cron = input.cron === undefined ? task.cron : text(input.cron, "cron", NAME_LENGTH);
+  const tools = input.allowed_tools === undefined ? task.allowed_tools : allowedTools(input.allowed_tools);
+  const next = cron === task.cron ? task.next_run_at : nextRunAt(cron);
+
+  db.prepare(`
+    UPDATE scheduled_tasks SET name = ?, prompt = ?, cron = ?, allowed_tools = ?, next_run_at = ?
+    WHERE id = ? AND user_id = ?
+  `).run(name, prompt, cron, JSON.stringify(tools), task.enabled ? next : null, id, userId);
+  return getScheduledTask(userId, id)!;
+}
+
+export function deleteScheduledTask(userId: string, id: string) {
+  return db.prepare("DELETE FROM scheduled_tasks WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+}
+
+/** Pause or resume a task; resuming schedules from now rather than catching up on missed runs */
+export function setScheduledTaskEnabled(userId: string, id: string, enabled: boolean) {
+  const task = requireTask(userId, id);
+  db.prepare("UPDATE scheduled_tasks SET enabled = ?, next_run_at = ? WHERE id = ?")
+    .run(enabled ? 1 : 0, enabled ? nextRunAt(task.cron) : null, id);
+  return getScheduledTask(userId, id)!;
+}
+
+export function listScheduledRuns(userId: string, taskId?: string, limit = 50) {
+  const params: unknown[] = [userId];
+  let where = "t.user_id = ?";
+  if (taskId) {
+    where += " AND r.task_id = ?";
+    params.push(taskId);
+  }
+  params.push(Math.min(Math.max(limit, 1), MAX_RUNS));
+
+  return db.prepare(`
+    SELECT r.*, t.name AS task_name FROM scheduled_runs r
+    JOIN scheduled_tasks t ON t.id = r.task_id
+    WHERE ${where}
+    ORDER BY r.started_at DESC LIMIT ?
+  `).all(...params) as ScheduledRun[];
+}
+
+function getRun(id: string) {
+  return db.prepare(`
+    SELECT r.*, t.name AS task_name FROM scheduled_runs r
+    JOIN scheduled_tasks t ON t.id = r.task_id WHERE r.id = ?
+  `).get(id) as ScheduledRun;
+}
+
+function startRun(userId: string, task: ScheduledTask, trigger: RunTrigger) {
+  const startedAt = new Date();
+  const { conversationId, outcome } = startBackgroundRun(userId, runTitle(task.name, startedAt), task.prompt, task.allowed_tools);
+
+  const id = randomUUID();
+  db.prepare(`
+    INSERT INTO scheduled_runs (id, task_id, conversation_id, trigger, status, started_at)
+    VALUES (?, ?, ?, ?, 'running', ?)
+  `).run(id, task.id, conversationId, trigger, startedAt.getTime());
+  db.prepare("UPDATE scheduled_tasks SET last_run_at = ? WHERE id = ?").run(startedAt.getTime(), task.id);
+  running.add(task.id);
+
+  void recordOutcome("scheduled_runs", id, outcome).finally(() => running.delete(task.id));
+  return getRun(id);
+}
+
+/** Start a task now, outside its schedule; the run continues in the background */
+export function runScheduledTaskNow(userId: string, id: string) {
+  const task = requireTask(userId, id);
+  if (running.has(task.id)) throw new ScheduleError("This task is already running", 409);
+  return startRun(userId, task, "manual");
+}
+
+// A run that could not even start still gets a row, so the missed slot shows up in the task's history
+function recordFailedStart(taskId: string, trigger: RunTrigger, error: any) {
+  const now = Date.now();
+  db.prepare(`
+    INSERT INTO scheduled_runs (id, task_id, trigger, status, error, started_at, finished_at)
+    VALUES (?, ?, ?, 'error', ?, ?, ?)
+  `).run(randomUUID(), taskId, trigger, error?.message || "The run could not be started", now, now);
+}
+
+/**
+ * Start every due task without waiting for earlier ones to finish; the next run time is moved on
+ * first and `running` skips a task whose previous run is still going. A task that fails to start
+ * has the failure recorded against it without holding up the others.
+ */
+export function runDueTasks(now = new Date()) {
+  let due: any[];
+  try {
+    due = db
+      .prepare("SELECT * FROM scheduled_tasks WHERE enabled = 1 AND next_run_at <= ? ORDER BY next_run_at")
+      .all(now.getTime()) as any[];
+  } catch (error) {
+    console.error("Scheduler error:", error);
+    return;
+  }
+
+  for (const row of due) {
+    try {
+      let next: number | null = null;
+      try {
+        next = nextRun(row.cron, now).getTime();
+      } catch {
+        // Leave a task whose expression can no longer match paused instead of retrying it every tick
+      }
+      db.prepare("UPDATE scheduled_tasks SET next_run_at = ?, enabled = ? WHERE id = ?").run(next, next ? 1 : 0, row.id);
+      if (running.has(row.id)) continue;
+      startRun(row.user_id, toTask(row), "schedule");
+    } catch (error) {
+      console.error(`Scheduled task ${row.id} could not be started:`, error);
+      try {
+        recordFailedStart(row.id, "schedule", error);
+      } catch (recordError) {
+        console.error("Scheduler error:", recordError);
+      }
+    }
+  }
+}
+
+/** Start checking for due tasks. Runs missed while the server was down happen once, on the first tick. */
+export function startScheduler() {
+  const interrupted = failInterruptedRuns("scheduled_runs");
+  if (interrupted) console.log(`Marked ${interrupted} interrupted scheduled run(s) as failed.`);
+
+  setInterval(() => runDueTasks(), TICK_INTERVAL_MS);
+  runDueTasks();
+}
@@ -0,0 +1,154 @@
+import { randomUUID } from "crypto";
+import { db } from "./db";
+
+export class TemplateError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+/** A saved prompt run from the input bar as /name; {{variable}} placeholders are filled from the command's arguments */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  body: string;
+  variables: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TemplateInput {
+  name?: unknown;
+  description?: unknown;
+  body?: unknown;
+}
+
+/** The JSON format templates are exported in and imported from */
+export interface TemplatePack {
+  version: 1;
+  templates: { name: string; description: string; body: string }[];
+}
+
+const NAME_PATTERN = /^[a-z][a-z0-9_-]{0,31}$/;
+// Commands the input bar handles itself
+const RESERVED_NAMES = new Set(["clear", "connect", "tools", "help", "templates"]);
+const DESCRIPTION_LENGTH = 200;
+const BODY_LENGTH = 10_000;
+const MAX_PACK_SIZE = 200;
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][\w-]*)\s*\}\}/g;
+
+export function templateVariables(body: string) {
+  return [...new Set([...body.matchAll(VARIABLE_PATTERN)].map((match) => match[1]))];
+}
+
+const TEMPLATE_COLUMNS = "id, name, description, body, created_at, updated_at";
+
+function toTemplate(row: any): PromptTemplate {
+  return { ...row, variables: templateVariables(row.body) };
+}
+
+function validate(input: TemplateInput) {
+  const name = typeof input.name === "string" ? input.name.trim().replace(/^\//, "").toLowerCase() : "";
+  if (!NAME_PATTERN.test(name)) {
+    throw new TemplateError("name must start with a letter and use only letters, digits, - and _ (up to 32 characters)");
+  }
+  if (RESERVED_NAMES.has(name)) throw new TemplateError(`/${name} is a built-in command`);
+
+  const description = input.description === undefined || input.description === null ? "" : input.description;
+  if (typeof description !== "string" || description.length > DESCRIPTION_LENGTH) {
+    throw new TemplateError(`description must be text of at most ${DESCRIPTION_LENGTH} characters`);
+  }
+  if (typeof input.body !== "string" || !input.body.trim()) throw new TemplateError("body is required");
+  if (input.body.length > BODY_LENGTH) throw new TemplateError(`body must be at most ${BODY_LENGTH} characters`);
+
+  return { name, description: description.trim(), body: input.body.trim() };
+}
+
+export function listTemplates(userId: string) {
+  const rows = db.prepare(`SELECT ${TEMPLATE_COLUMNS} FROM prompt_templates WHERE user_id = ? ORDER BY name`).all(userId);
+  return rows.map(toTemplate);
+}
+
+function getTemplate(userId: string, id: string) {
+  const row = db.prepare(`SELECT ${TEMPLATE_COLUMNS} FROM prompt_templates WHERE id = ? AND user_id = ?`).get(id, userId);
+  return row ? toTemplate(row) : undefined;
+}
+
+function findByName(userId: string, name: string) {
+  return db.prepare("SELECT id FROM prompt_templates WHERE user_id = ? AND name = ?").get(userId, name) as { id: string } | undefined;
+}
+
+function insert(userId: string, template: { name: string; description: string; body: string }) {
+  const id = randomUUID();
+  db.prepare("INSERT INTO prompt_templates (id, user_id, name, description, body) VALUES (?, ?, ?, ?, ?)")
+    .run(id, userId, template.name, template.description, template.body);
+  return id;
+}
+
+function update(id: string, template: { name: string; description: string; body: string }) {
+  db.prepare("UPDATE prompt_templates SET name = ?, description = ?, body = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+    .run(template.name, template.description, template.body, id);
+}
+
+export function createTemplate(userId: string, input: TemplateInput) {
+  const template = validate(input);
+  if (findByName(userId, template.name)) throw new TemplateError(`/${template.name} already exists`, 409);
+  return getTemplate(userId, insert(userId, template))!;
+}
+
+export function updateTemplate(userId: string, id: string, input: TemplateInput) {
+  const current = getTemplate(userId, id);
+  if (!current) throw new TemplateError("Template not found", 404);
+  const template = validate({ ...current, ...input });
+  const clash = findByName(userId, template.name);
+  if (clash && clash.id !== id) throw new TemplateError(`/${template.name} already exists`, 409);
+
+  update(id, template);
+  return getTemplate(userId, id)!;
+}
+
+export function deleteTemplate(userId: string, id: string) {
+  return db.prepare("DELETE FROM prompt_templates WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+}
+
+export function exportTemplates(userId: string): TemplatePack {
+  return {
+    version: 1,
+    templates: listTemplates(userId).map(({ name, description, body }) => ({ name, description, body })),
+  };
+}
+
+/** Add a pack's templates, replacing same-named ones when `overwrite` is set. Nothing is saved if any entry is invalid. */
+export function importTemplates(userId: string, pack: unknown, overwrite: boolean) {
+  const templates = (pack as TemplatePack)?.templates;
+  if (!Array.isArray(templates)) throw new TemplateError("A template pack needs a templates array");
+  if (templates.length > MAX_PACK_SIZE) throw new TemplateError(`A template pack can hold at most ${MAX_PACK_SIZE} templates`);
+
+  const valid = templates.map((entry, i) => {
+    try {
+      return validate(entry ?? {});
+    } catch (error: any) {
+      throw new TemplateError(`Template ${i + 1}: ${error.message}`);
+    }
+  });
+
+  const counts = { created: 0, updated: 0, skipped: 0 };
+  db.transaction(() => {
+    for (const template of valid) {
+      const existing = findByName(userId, template.name);
+      if (!existing) {
+        insert(userId, template);
+        counts.created++;
+      } else if (overwrite) {
+        update(existing.id, template);
+        counts.updated++;
+      } else {
+        counts.skipped++;
+      }
+    }
+  })();
+  return counts;
+}
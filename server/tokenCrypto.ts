@@ -0,0 +1,129 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+// Stored format: enc:v1:<key id>:<wrapped data key>:<iv>:<auth tag>:<ciphertext>, all base64
+const PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+export function parseKey(value: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, "hex") : Buffer.from(trimmed, "base64");
+  if (key.length !== 32) throw new Error("Token encryption keys must be 32 bytes, given as base64 or hex");
+  return key;
+}
+
+function toMasterKey(key: Buffer): MasterKey {
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 8), key };
+}
+
+export function generateKey() {
+  return randomBytes(32).toString("base64");
+}
+
+/** The active key encrypts; previous keys (comma separated) are only used to decrypt during rotation */
+function loadKeys() {
+  const active = process.env.TOKEN_ENCRYPTION_KEY ? toMasterKey(parseKey(process.env.TOKEN_ENCRYPTION_KEY)) : null;
+  const previous = (process.env.TOKEN_ENCRYPTION_KEY_PREVIOUS || "")
+    .split(",")
+    .filter((k) => k.trim())
+    .map((k) => toMasterKey(parseKey(k)));
+  return { active, all: active ? [active, ...previous] : previous };
+}
+
+function seal(key: Buffer, plaintext: Buffer) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer) {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+// The wrapped data key carries its own iv and tag so it can be re-wrapped without touching the token
+function wrapDataKey(master: MasterKey, dataKey: Buffer) {
+  const { iv, tag, ciphertext } = seal(master.key, dataKey);
+  return Buffer.concat([iv, tag, ciphertext]).toString("base64");
+}
+
+function unwrapDataKey(master: MasterKey, wrapped: string) {
+  const raw = Buffer.from(wrapped, "base64");
+  return open(master.key, raw.subarray(0, 12), raw.subarray(12, 28), raw.subarray(28));
+}
+
+export function isEncrypted(value: string | null | undefined) {
+  return !!value && value.startsWith(PREFIX);
+}
+
+export function isEncryptionEnabled() {
+  return !!process.env.TOKEN_ENCRYPTION_KEY;
+}
+
+export function encryptToken(plaintext: string): string;
+export function encryptToken(plaintext: string | null | undefined): string | null;
+export function encryptToken(plaintext: string | null | undefined) {
+  if (plaintext === null || plaintext === undefined) return null;
+  const { active } = loadKeys();
+  if (!active) return plaintext;
+
+  const dataKey = randomBytes(32);
+  const { iv, tag, ciphertext } = seal(dataKey, Buffer.from(plaintext, "utf8"));
+  return PREFIX + [active.id, wrapDataKey(active, dataKey), iv, tag, ciphertext]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":");
+}
+
+function parseStored(value: string) {
+  const [keyId, wrapped, iv, tag, ciphertext] = value.slice(PREFIX.length).split(":");
+  return { keyId, wrapped, iv, tag, ciphertext };
+}
+
+function findKey(keyId: string) {
+  const master = loadKeys().all.find((k) => k.id === keyId);
+  if (!master) throw new Error(`No token encryption key with id ${keyId} is configured`);
+  return master;
+}
+
+export function decryptToken(value: string): string;
+export function decryptToken(value: string | null | undefined): string | null;
+export function decryptToken(value: string | null | undefined) {
+  if (value === null || value === undefined) return null;
+  if (!isEncrypted(value)) return value;
+
+  const { keyId, wrapped, iv, tag, ciphertext } = parseStored(value);
+  const dataKey = unwrapDataKey(findKey(keyId), wrapped);
+  return open(dataKey, Buffer.from(iv, "base64"), Buffer.from(tag, "base64"), Buffer.from(ciphertext, "base64")).toString("utf8");
+}
+
+/** Re-wrap a stored token's data key with the active key, leaving the token ciphertext untouched */
+export function rewrapToken(value: string) {
+  const { active } = loadKeys();
+  if (!active) throw new Error("TOKEN_ENCRYPTION_KEY is not set");
+  if (!isEncrypted(value)) return encryptToken(value);
+
+  const { keyId, wrapped, iv, tag, ciphertext } = parseStored(value);
+  if (keyId === active.id) return value;
+  const dataKey = unwrapDataKey(findKey(keyId), wrapped);
+  return PREFIX + [active.id, wrapDataKey(active, dataKey), iv, tag, ciphertext].join(":");
+}
+
+export function checkEncryptionKey() {
+  if (process.env.TOKEN_ENCRYPTION_KEY) {
+    loadKeys(); // Fail fast on malformed keys
+    return;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(
+      "TOKEN_ENCRYPTION_KEY is not set. OAuth tokens cannot be stored unencrypted in production.\n" +
+      "Generate one with `npm run rotate-key -- --generate` and add it to the server environment."
+    );
+  }
+  console.warn("TOKEN_ENCRYPTION_KEY is not set; OAuth tokens will be stored in plaintext (development only).");
+}
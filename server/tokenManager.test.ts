@@ -0,0 +1,55 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { registerUser } from "./auth";
+import { TokenRequestError } from "./providers";
+import { getAccessToken, getConnection, ProviderAuthError, saveConnection } from "./tokenManager";
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+// Answer Google's token endpoint with the given status and body
+function mockTokenEndpoint(status: number, body: unknown) {
+  globalThis.fetch = (async () =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } })) as typeof fetch;
+}
+
+// A Google connection whose access token has expired, so the next use refreshes it
+function expiredConnection(name: string) {
+  const user = registerUser(name, "correct horse battery");
+  saveConnection(user.id, "google", `${name}@example.com`, { accessToken: "old", refreshToken: "refresh", expiresAt: Date.now() - 1000 });
+  return getConnection(user.id, "google")!;
+}
+
+test("a rate-limited refresh is worth retrying and leaves the connection active", async () => {
+  const connection = expiredConnection("token-rate-limited");
+  mockTokenEndpoint(429, { error: "rate_limit_exceeded" });
+
+  await assert.rejects(getAccessToken(connection), (error) => error instanceof TokenRequestError && error.status === 429);
+  assert.equal(getConnection(connection.user_id, "google")!.status, "active");
+});
+
+test("a timed-out refresh leaves the connection active", async () => {
+  const connection = expiredConnection("token-timeout");
+  mockTokenEndpoint(408, {});
+
+  await assert.rejects(getAccessToken(connection), TokenRequestError);
+  assert.equal(getConnection(connection.user_id, "google")!.status, "active");
+});
+
+test("a refused grant asks the user to reconnect", async () => {
+  const connection = expiredConnection("token-invalid-grant");
+  mockTokenEndpoint(400, { error: "invalid_grant", error_description: "Token has been expired or revoked." });
+
+  await assert.rejects(getAccessToken(connection), ProviderAuthError);
+  assert.equal(getConnection(connection.user_id, "google")!.status, "needs_reauth");
+});
+
+test("a refreshed token is stored and used", async () => {
+  const connection = expiredConnection("token-refreshed");
+  mockTokenEndpoint(200, { access_token: "new", expires_in: 3600 });
+
+  assert.equal(await getAccessToken(connection), "new");
+  assert.equal(getConnection(connection.user_id, "google")!.access_token, "new");
+});
@@ -0,0 +1,139 @@
+import { randomUUID } from "crypto";
+import { db } from "./db";
+import { decryptToken, encryptToken } from "./tokenCrypto";
+import { getProvider, refreshAccessToken, TokenRequestError } from "./providers";
+import type { Provider } from "./tools/registry";
+
+export interface ConnectionRow {
+  id: string;
+  user_id: string;
+  provider: Provider;
+  account: string;
+  access_token: string;
+  refresh_token: string | null;
+  expires_at: number | null;
+  scopes: string | null;
+  status: "active" | "needs_reauth";
+}
+
+/** Thrown by provider calls that were rejected with 401 so the token can be refreshed */
+export class ProviderAuthError extends Error {
+  constructor(public provider: Provider, message = `${provider} rejected the access token`) {
+    super(message);
+    this.name = "ProviderAuthError";
+  }
+}
+
+// Refresh a little early so a token doesn't expire mid-request
+const EXPIRY_MARGIN_MS = 60_000;
+
+const inflight = new Map<string, Promise<string>>();
+
+/** The user's most recently connected account for a provider */
+export function getConnection(userId: string, provider: Provider) {
+  const row = db
+    .prepare("SELECT * FROM connections WHERE user_id = ? AND provider = ? ORDER BY created_at DESC, rowid DESC LIMIT 1")
+    .get(userId, provider) as ConnectionRow | undefined;
+  if (!row) return undefined;
+  return { ...row, access_token: decryptToken(row.access_token), refresh_token: decryptToken(row.refresh_token) };
+}
+
+/** Store tokens for a user's provider account, replacing any earlier tokens for the same account */
+export function saveConnection(
+  userId: string,
+  provider: Provider,
+  account: string,
+  tokens: { accessToken: string; refreshToken?: string | null; expiresAt?: number | null; scopes?: string | null }
+) {
+  db.prepare(`
+    INSERT INTO connections (id, user_id, provider, account, access_token, refresh_token, expires_at, scopes, status)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'active')
+    ON CONFLICT (user_id, provider, account) DO UPDATE SET
+      access_token = excluded.access_token,
+      refresh_token = COALESCE(excluded.refresh_token, connections.refresh_token),
+      expires_at = excluded.expires_at,
+      scopes = excluded.scopes,
+      status = 'active'
+  `).run(
+    randomUUID(),
+    userId,
+    provider,
+    account,
+    encryptToken(tokens.accessToken),
+    encryptToken(tokens.refreshToken),
+    tokens.expiresAt ?? null,
+    tokens.scopes ?? null
+  );
+}
+
+export function markNeedsReauth(connectionId: string) {
+  db.prepare("UPDATE connections SET status = 'needs_reauth' WHERE id = ?").run(connectionId);
+}
+
+async function refresh(connection: ConnectionRow) {
+  const provider = getProvider(connection.provider);
+  if (!provider?.refresh || !connection.refresh_token) {
+    markNeedsReauth(connection.id);
+    throw new ProviderAuthError(connection.provider, `${connection.provider} token expired and cannot be refreshed`);
+  }
+
+  try {
+    const data = await refreshAccessToken(provider, connection.refresh_token);
+    const expiresAt = data.expires_in ? Date.now() + data.expires_in * 1000 : null;
+    db.prepare(`
+      UPDATE connections
+      SET access_token = ?, refresh_token = COALESCE(?, refresh_token), expires_at = ?, status = 'active'
+      WHERE id = ?
+    `).run(encryptToken(data.access_token), encryptToken(data.refresh_token), expiresAt, connection.id);
+    return data.access_token;
+  } catch (error: any) {
+    console.error(`Token refresh failed for ${connection.provider}:`, error);
+    // Only a refused grant means reconnecting; outages and network errors are worth retrying later
+    if (!(error instanceof TokenRequestError && error.rejected)) throw error;
+    markNeedsReauth(connection.id);
+    throw new ProviderAuthError(connection.provider, `${connection.provider} token refresh failed: ${error.message}`);
+  }
+}
+
+// Share a single refresh between concurrent callers
+function refreshOnce(connection: ConnectionRow) {
+  let pending = inflight.get(connection.id);
+  if (!pending) {
+    pending = refresh(connection).finally(() => inflight.delete(connection.id));
+    inflight.set(connection.id, pending);
+  }
+  return pending;
+}
+
+export async function getAccessToken(connection: ConnectionRow) {
+  if (connection.expires_at && connection.expires_at - EXPIRY_MARGIN_MS <= Date.now()) {
+    return refreshOnce(connection);
+  }
+  return connection.access_token;
+}
+
+/**
+ * Tokens for one tool call. Requests start with the current token, and a request rejected with 401
+ * gets a refreshed one and is repeated on its own, so requests that already went through are never
+ * sent twice. Requests rejected with the same token share one refresh.
+ */
+export async function callTokens(connection: ConnectionRow) {
+  let current = await getAccessToken(connection);
+  let refreshed = false;
+  return {
+    get current() {
+      return current;
+    },
+    /** A token to use instead of one the provider rejected; throws once a refreshed token is rejected too */
+    async refresh(rejected: string) {
+      if (rejected !== current) return current;
+      if (refreshed) {
+        markNeedsReauth(connection.id);
+        throw new ProviderAuthError(connection.provider);
+      }
+      current = await refreshOnce({ ...connection, access_token: rejected });
+      refreshed = true;
+      return current;
+    },
+  };
+}
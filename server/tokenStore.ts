@@ -0,0 +1,47 @@
+import { db } from "./db";
+import { encryptToken, isEncrypted, isEncryptionEnabled, rewrapToken } from "./tokenCrypto";
+
+interface TokenRow {
+  id: string;
+  access_token: string;
+  refresh_token: string | null;
+}
+
+function updateRows(transform: (value: string) => string) {
+  const rows = db.prepare("SELECT id, access_token, refresh_token FROM connections").all() as TokenRow[];
+  const update = db.prepare("UPDATE connections SET access_token = ?, refresh_token = ? WHERE id = ?");
+  // Webhook signing secrets are stored under the same keys
+  const hooks = db.prepare("SELECT id, secret FROM webhooks").all() as { id: string; secret: string }[];
+  const updateHook = db.prepare("UPDATE webhooks SET secret = ? WHERE id = ?");
+
+  let changed = 0;
+  db.transaction(() => {
+    for (const row of rows) {
+      const accessToken = transform(row.access_token);
+      const refreshToken = row.refresh_token === null ? null : transform(row.refresh_token);
+      if (accessToken !== row.access_token || refreshToken !== row.refresh_token) {
+        update.run(accessToken, refreshToken, row.id);
+        changed++;
+      }
+    }
+    for (const hook of hooks) {
+      const secret = transform(hook.secret);
+      if (secret !== hook.secret) {
+        updateHook.run(secret, hook.id);
+        changed++;
+      }
+    }
+  })();
+  return changed;
+}
+
+/** One-time migration of tokens written before encryption was enabled */
+export function encryptPlaintextTokens() {
+  if (!isEncryptionEnabled()) return 0;
+  return updateRows((value) => (isEncrypted(value) ? value : encryptToken(value)));
+}
+
+/** Re-wrap every token with the active key after TOKEN_ENCRYPTION_KEY changes */
+export function rotateTokenKeys() {
+  return updateRows(rewrapToken);
+}
@@ -0,0 +1,126 @@
+import { after, before, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import { registerUser } from "../auth";
+import { saveConnection } from "../tokenManager";
+import { executeTool } from "./index";
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  body: any;
+}
+
+// A stand-in for api.github.com that answers from a route table and records every request
+const requests: RecordedRequest[] = [];
+let routes: Record<string, (body: any) => { status?: number; headers?: Record<string, string>; json?: unknown }> = {};
+
+const server = http.createServer((req, res) => {
+  let raw = "";
+  req.on("data", (chunk) => (raw += chunk));
+  req.on("end", () => {
+    const body = raw ? JSON.parse(raw) : undefined;
+    requests.push({ method: req.method!, url: req.url!, authorization: req.headers.authorization, body });
+    const route = routes[`${req.method} ${req.url}`];
+    const reply = route ? route(body) : { status: 404, json: { message: "Not Found" } };
+    res.writeHead(reply.status || 200, { "Content-Type": "application/json", ...reply.headers });
+    res.end(reply.json === undefined ? "" : JSON.stringify(reply.json));
+  });
+});
+
+const user = registerUser("github-test", "correct horse battery");
+saveConnection(user.id, "github", "octocat", { accessToken: "gho_test", scopes: "repo,user" });
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  process.env.GITHUB_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+after(() => server.close());
+
+beforeEach(() => {
+  requests.length = 0;
+  routes = {};
+});
+
+test("list_github_issues sends the filters and leaves out pull requests", async () => {
+  routes["GET /repos/octo/hello-world/issues?state=closed&labels=bug&per_page=5"] = () => ({
+    json: [
+      { number: 1, title: "Crash on start", state: "closed", user: { login: "alice" }, labels: [{ name: "bug" }], assignees: [] },
+      { number: 2, title: "Fix crash", state: "closed", user: { login: "bob" }, labels: [], assignees: [], pull_request: {} },
+    ],
+  });
+
+  const result = await executeTool("list_github_issues", { repo: "octo/hello-world", state: "closed", labels: "bug", limit: 5 }, user.id);
+
+  assert.equal(result.ok, true);
+  assert.deepEqual(
+    (result as any).data.map((i: any) => [i.number, i.author, i.labels]),
+    [[1, "alice", ["bug"]]]
+  );
+  assert.equal(requests[0].authorization, "token gho_test");
+});
+
+test("close_github_issue comments before closing with the given reason", async () => {
+  routes["POST /repos/octo/hello-world/issues/7/comments"] = () => ({ status: 201, json: { id: 99 } });
+  routes["PATCH /repos/octo/hello-world/issues/7"] = (body) => ({
+    json: { number: 7, state: body.state, html_url: "https://github.com/octo/hello-world/issues/7" },
+  });
+
+  const result = await executeTool(
+    "close_github_issue",
+    { repo: "octo/hello-world", number: 7, reason: "not_planned", comment: "Duplicate of #3" },
+    user.id
+  );
+
+  assert.deepEqual(result, {
+    ok: true,
+    data: { number: 7, state: "closed", url: "https://github.com/octo/hello-world/issues/7" },
+  });
+  assert.deepEqual(
+    requests.map((r) => [r.method, r.url, r.body]),
+    [
+      ["POST", "/repos/octo/hello-world/issues/7/comments", { body: "Duplicate of #3" }],
+      ["PATCH", "/repos/octo/hello-world/issues/7", { state: "closed", state_reason: "not_planned" }],
+    ]
+  );
+});
+
+test("a malformed repo or file path is refused before any request is made", async () => {
+  const calls: [string, Record<string, unknown>][] = [
+    ["list_github_issues", { repo: "octo/hello-world/../../user" }],
+    ["get_github_issue", { repo: "octo/hello-world?per_page=1", number: 1 }],
+    ["create_github_issue", { repo: "../orgs/acme", title: "x" }],
+    ["label_github_issue", { repo: "octo", number: 1, remove: ["bug"] }],
+    ["get_github_file", { repo: "octo/hello world", path: "README.md" }],
+    ["search_github_code", { query: "token", repo: "octo/x repo:secret/repo" }],
+    ["list_github_commits", { repo: "../user" }],
+    ["list_github_pull_requests", { repo: "octo/.." }],
+    ["get_github_file", { repo: "octo/hello-world", path: "../../../user/repos" }],
+    ["get_github_file", { repo: "octo/hello-world", path: "docs/./../.." }],
+  ];
+
+  for (const [name, args] of calls) {
+    const result = await executeTool(name, args, user.id);
+    assert.equal(result.ok, false, name);
+    assert.equal((result as any).code, "invalid_arguments", name);
+  }
+  assert.deepEqual(requests, []);
+});
+
+test("an exhausted rate limit is reported as retryable with the reset time", async () => {
+  const reset = Math.floor(Date.now() / 1000) + 60;
+  routes["GET /repos/octo/hello-world/commits?per_page=10"] = () => ({
+    status: 403,
+    headers: { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(reset) },
+    json: { message: "API rate limit exceeded" },
+  });
+
+  const result = await executeTool("list_github_commits", { repo: "octo/hello-world" }, user.id);
+
+  assert.equal(result.ok, false);
+  assert.equal((result as any).code, "rate_limited");
+  assert.equal((result as any).retryable, true);
+  assert.ok((result as any).retryAfter > 0 && (result as any).retryAfter <= 60);
+});
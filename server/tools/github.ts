@@ -0,0 +1,534 @@
+import { fetchWithToken, ToolContext, ToolDefinition, ToolError, ProviderApiError, retryAfterSeconds } from "./registry";
+import { ProviderAuthError } from "../tokenManager";
+
+// Overridable so the tools can be pointed at GitHub Enterprise or a local mock API
+const apiUrl = () => process.env.GITHUB_API_URL || "https://api.github.com";
+
+// Keep file reads from flooding the model's context
+const MAX_FILE_CHARS = 50_000;
+
+async function githubRequest(ctx: ToolContext, endpoint: string, init: { method?: string; body?: any } = {}) {
+  const response = await fetchWithToken(ctx, (accessToken) => fetch(`${apiUrl()}${endpoint}`, {
+    method: init.method || "GET",
+    headers: {
+      Authorization: `token ${accessToken}`,
+      Accept: "application/vnd.github+json",
+      "User-Agent": "Nexus-Agent",
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+    signal: ctx.signal,
+  }));
+
+  if (response.status === 401) throw new ProviderAuthError("github");
+  if (response.status === 204) return null;
+  // Error pages from proxies and gateways are not always JSON
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    // GitHub signals exhausted (and secondary) rate limits with 403 as well as 429
+    const rateLimited = response.status === 429 ||
+      (response.status === 403 && (response.headers.get("x-ratelimit-remaining") === "0" || /rate limit/i.test(data.message || "")));
+    const reset = Number(response.headers.get("x-ratelimit-reset"));
+    throw new ProviderApiError(data.message || `GitHub API error (${response.status})`, response.status, {
+      rateLimited,
+      retryAfter: retryAfterSeconds(response) ?? (rateLimited && reset ? Math.max(0, reset - Math.floor(Date.now() / 1000)) : undefined),
+    });
+  }
+  return data;
+}
+
+function query(params: Record<string, unknown>) {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== "") search.set(key, String(value));
+  }
+  const qs = search.toString();
+  return qs ? `?${qs}` : "";
+}
+
+const REPO_NAME = /^[\w.-]+\/[\w.-]+$/;
+
+// URLs resolve "." and ".." segments, so "../user" would leave /repos/{owner}/{repo} behind
+const isDotSegment = (segment: string) => segment === "." || segment === "..";
+
+// The repo goes into URL paths and search qualifiers, so anything but "owner/name" is refused up front
+function checkRepo(repo: string) {
+  if (!REPO_NAME.test(repo) || repo.split("/").some(isDotSegment)) {
+    throw new ToolError("invalid_arguments", `Invalid repository "${repo}", expected "owner/repo"`);
+  }
+  return repo;
+}
+
+const repoPath = (repo: string) => `/repos/${checkRepo(repo)}`;
+
+const clampLimit = (limit: number | undefined, fallback = 10) => Math.min(Math.max(limit || fallback, 1), 100);
+
+const summarizeIssue = (i: any) => ({
+  number: i.number,
+  title: i.title,
+  state: i.state,
+  author: i.user?.login,
+  labels: (i.labels || []).map((l: any) => (typeof l === "string" ? l : l.name)),
+  assignees: (i.assignees || []).map((a: any) => a.login),
+  comments: i.comments,
+  created_at: i.created_at,
+  updated_at: i.updated_at,
+  url: i.html_url,
+});
+
+const summarizeComment = (c: any) => ({
+  author: c.user?.login,
+  body: c.body,
+  created_at: c.created_at,
+  url: c.html_url,
+});
+
+const repoParam = {
+  type: "string" as const,
+  description: "The full name of the repository (e.g., 'owner/repo').",
+};
+
+const numberParam = {
+  type: "integer" as const,
+  description: "The issue or pull request number.",
+};
+
+const limitParam = {
+  type: "integer" as const,
+  description: "Maximum number of results to return (1-100, default 10).",
+};
+
+export const githubTools: ToolDefinition[] = [
+  {
+    name: "list_github_repos",
+    description: "List the user's GitHub repositories, most recently updated first.",
+    provider: "github",
+    scopes: ["repo"],
+    mutating: false,
+    parameters: {
+      type: "object",
+      properties: {
+        limit: limitParam,
+        sort: {
+          type: "string",
+          description: "Sort order (default 'updated').",
+          enum: ["updated", "pushed", "created", "full_name"],
+        },
+      },
+    },
+    handler: async ({ limit, sort }, ctx) => {
+      const repos = await githubRequest(ctx, `/user/repos${query({ sort: sort || "updated", per_page: clampLimit(limit) })}`);
+      return repos.map((r: any) => ({ name: r.full_name, url: r.html_url, description: r.description, private: r.private }));
+    },
+  },
+  {
+    name: "list_github_issues",
+    description: "List issues in a GitHub repository with optional filters. Pull requests are excluded.",
+    provider: "github",
+    scopes: ["repo"],
+    mutating: false,
+    parameters: {
+      type: "object",
+      properties: {
+        repo: repoParam,
+        state: {
+          type: "string",
+          description: "Issue state (default 'open').",
+          enum: ["open", "closed", "all"],
+        },
+        labels: {
+          type: "string",
+          description: "Comma-separated label names the issues must all have.",
+        },
+        assignee: {
+          type: "string",
+          description: "Username of the assignee, 'none' or '*'.",
+        },
+        creator: {
+          type: "string",
+          description: "Username of the issue author.",
+        },
+        since: {
+          type: "string",
+          description: "Only issues updated at or after this ISO 8601 timestamp.",
+        },
+        limit: limitParam,
+      },
+      required: ["repo"],
+    },
+    handler: async ({ repo, state, labels, assignee, creator, since, limit }, ctx) => {
+      const issues = await githubRequest(
+        ctx,
+        `${repoPath(repo)}/issues${query({ state, labels, assignee, creator, since, per_page: clampLimit(limit) })}`
+      );
+      return issues.filter((i: any) => !i.pull_request).map(summarizeIssue);
+    },
+  },
+  {
+    name: "list_github_pull_requests",
+    description: "List pull requests in a GitHub repository.",
+    provider: "github",
+    scopes: ["repo"],
+    mutating: false,
+    parameters: {
+      type: "object",
+      properties: {
+        repo: repoParam,
+        state: {
+          type: "string",
+          description: "Pull request state (default 'open').",
+          enum: ["open", "closed", "all"],
+        },
+        base: {
+          type: "string",
+          description: "Only pull requests targeting this base branch.",
+        },
+        head: {
+          type: "string",
+          description: "Only pull requests from this head, as 'user:branch'.",
+        },
+        limit: limitParam,
+      },
+      required: ["repo"],
+    },
+    handler: async ({ repo, state, base, head, limit }, ctx) => {
+      const pulls = await githubRequest(
+        ctx,
+        `${repoPath(repo)}/pulls${query({ state, base, head, per_page: clampLimit(limit) })}`
+      );
+      return pulls.map((p: any) => ({
+        number: p.number,
+        title: p.title,
+        state: p.state,
+        draft: p.draft,
+        author: p.user?.login,
+        head: p.head?.ref,
+        base: p.base?.ref,
+        merged_at: p.merged_at,
+        updated_at: p.updated_at,
+        url: p.html_url,
+      }));
+    },
+  },
+  {
+    name: "get_github_issue",
+    description: "Read a GitHub issue or pull request conversation, including its comments.",
+    provider: "github",
+    scopes: ["repo"],
+    mutating: false,
+    parameters: {
+      type: "object",
+      properties: {
+        repo: repoParam,
+        number: numberParam,
+      },
+      required: ["repo", "number"],
+    },
+    handler: async ({ repo, number }, ctx) => {
+      const issue = await githubRequest(ctx, `${repoPath(repo)}/issues/${number}`);
+      const comments = await githubRequest(ctx, `${repoPath(repo)}/issues/${number}/comments?per_page=100`);
+      return {
+        ...summarizeIssue(issue),
+        is_pull_request: !!issue.pull_request,
+        body: issue.body,
+        comment_thread: comments.map(summarizeComment),
+      };
+    },
+  },
+  {
+    name: "get_github_pull_request",
+    description: "Read a GitHub pull request's details, changed files, reviews and review comments.",
+    provider: "github",
+    scopes: ["repo"],
+    mutating: false,
+    parameters: {
+      type: "object",
+      properties: {
+        repo: repoParam,
+        number: numberParam,
+      },
+      required: ["repo", "number"],
+    },
+    handler: async ({ repo, number }, ctx) => {
+      const [pull, files, reviews, reviewComments] = await Promise.all([
+        githubRequest(ctx, `${repoPath(repo)}/pulls/${number}`),
+        githubRequest(ctx, `${repoPath(repo)}/pulls/${number}/files?per_page=100`),
+        githubRequest(ctx, `${repoPath(repo)}/pulls/${number}/reviews?per_page=100`),
+        githubRequest(ctx, `${repoPath(repo)}/pulls/${number}/comments?per_page=100`),
+      ]);
+      return {
+        number: pull.number,
+        title: pull.title,
+        state: pull.state,
+        draft: pull.draft,
+        merged: pull.merged,
+        mergeable: pull.mergeable,
+        author: pull.user?.login,
+        head: pull.head?.ref,
+        base: pull.base?.ref,
+        body: pull.body,
+        additions: pull.additions,
+        deletions: pull.deletions,
+        url: pull.html_url,
+        files: files.map((f: any) => ({ filename: f.filename, status: f.status, additions: f.additions, deletions: f.deletions })),
+        reviews: reviews.map((r: any) => ({ author: r.user?.login, state: r.state, body: r.body, submitted_at: r.submitted_at })),
+        review_comments: reviewComments.map((c: any) => ({ ...summarizeComment(c), path: c.path, line: c.line })),
+      };
+    },
+  },
+  {
+    name: "create_github_issue",
+    description: "Create a new issue in a GitHub repository.",
+    provider: "github",
+    scopes: ["repo"],
+    mutating: true,
+    parameters: {
+      type: "object",
+      properties: {
+        repo: repoParam,
+        title: {
+          type: "string",
+          description: "The title of the issue.",
+        },
+        body: {
+          type: "string",
+          description: "The body content of the issue.",
+        },
+      },
+      required: ["repo", "title"],
+    },
+    handler: async ({ repo, title, body }, ctx) => {
+      const issue = await githubRequest(ctx, `${repoPath(repo)}/issues`, {
+        method: "POST",
+        body: { title, body },
+      });
+      return { url: issue.html_url, number: issue.number };
+    },
+  },
+  {
+    name: "comment_on_github_issue",
+    description: "Add a comment to a GitHub issue or pull request.",
+    provider: "github",
+    scopes: ["repo"],
+    mutating: true,
+    parameters: {
+      type: "object",
+      properties: {
+        repo: repoParam,
+        number: numberParam,
+        body: {
+          type: "string",
+          description: "The comment text in markdown.",
+        },
+      },
+      required: ["repo", "number", "body"],
+    },
+    handler: async ({ repo, number, body }, ctx) => {
+      const comment = await githubRequest(ctx, `${repoPath(repo)}/issues/${number}/comments`, {
+        method: "POST",
+        body: { body },
+      });
+      return { url: comment.html_url, id: comment.id };
+    },
+  },
+  {
+    name: "label_github_issue",
+    description: "Add or remove labels on a GitHub issue or pull request.",
+    provider: "github",
+    scopes: ["repo"],
+    mutating: true,
+    parameters: {
+      type: "object",
+      properties: {
+        repo: repoParam,
+        number: numberParam,
+        add: {
+          type: "array",
+          description: "Labels to add.",
+          items: { type: "string" },
+        },
+        remove: {
+          type: "array",
+          description: "Labels to remove.",
+          items: { type: "string" },
+        },
+      },
+      required: ["repo", "number"],
+    },
+    handler: async ({ repo, number, add = [], remove = [] }, ctx) => {
+      if (add.length) {
+        await githubRequest(ctx, `${repoPath(repo)}/issues/${number}/labels`, {
+          method: "POST",
+          body: { labels: add },
+        });
+      }
+      for (const label of remove) {
+        try {
+          await githubRequest(ctx, `${repoPath(repo)}/issues/${number}/labels/${encodeURIComponent(label)}`, { method: "DELETE" });
+        } catch (error: any) {
+          // Removing a label that isn't there is not worth failing the whole call
+          if (!/Label does not exist/i.test(error.message)) throw error;
+        }
+      }
+      const labels = await githubRequest(ctx, `${repoPath(repo)}/issues/${number}/labels`);
+      return { labels: labels.map((l: any) => l.name) };
+    },
+  },
+  {
+    name: "close_github_issue",
+    description: "Close a GitHub issue, optionally leaving a closing comment.",
+    provider: "github",
+    scopes: ["repo"],
+    mutating: true,
+    parameters: {
+      type: "object",
+      properties: {
+        repo: repoParam,
+        number: numberParam,
+        reason: {
+          type: "string",
+          description: "Why the issue is being closed (default 'completed').",
+          enum: ["completed", "not_planned"],
+        },
+        comment: {
+          type: "string",
+          description: "Optional comment to post before closing.",
+        },
+      },
+      required: ["repo", "number"],
+    },
+    handler: async ({ repo, number, reason, comment }, ctx) => {
+      if (comment) {
+        await githubRequest(ctx, `${repoPath(repo)}/issues/${number}/comments`, {
+          method: "POST",
+          body: { body: comment },
+        });
+      }
+      const issue = await githubRequest(ctx, `${repoPath(repo)}/issues/${number}`, {
+        method: "PATCH",
+        body: { state: "closed", state_reason: reason || "completed" },
+      });
+      return { number: issue.number, state: issue.state, url: issue.html_url };
+    },
+  },
+  {
+    name: "search_github_code",
+    description: "Search code on GitHub using GitHub code search syntax.",
+    provider: "github",
+    scopes: ["repo"],
+    mutating: false,
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "The search terms, e.g. 'useEffect language:typescript'.",
+        },
+        repo: {
+          type: "string",
+          description: "Optionally restrict the search to one repository ('owner/repo').",
+        },
+        limit: limitParam,
+      },
+      required: ["query"],
+    },
+    handler: async ({ query: q, repo, limit }, ctx) => {
+      const data = await githubRequest(
+        ctx,
+        `/search/code${query({ q: repo ? `${q} repo:${checkRepo(repo)}` : q, per_page: clampLimit(limit) })}`
+      );
+      return {
+        total_count: data.total_count,
+        results: data.items.map((item: any) => ({
+          repo: item.repository?.full_name,
+          path: item.path,
+          url: item.html_url,
+        })),
+      };
+    },
+  },
+  {
+    name: "get_github_file",
+    description: "Read a file (or list a directory) from a GitHub repository at a branch, tag or commit.",
+    provider: "github",
+    scopes: ["repo"],
+    mutating: false,
+    parameters: {
+      type: "object",
+      properties: {
+        repo: repoParam,
+        path: {
+          type: "string",
+          description: "Path of the file or directory within the repository.",
+        },
+        ref: {
+          type: "string",
+          description: "Branch, tag or commit SHA (defaults to the default branch).",
+        },
+      },
+      required: ["repo", "path"],
+    },
+    handler: async ({ repo, path, ref }, ctx) => {
+      const segments = path.split("/").filter(Boolean);
+      if (segments.some(isDotSegment)) throw new ToolError("invalid_arguments", `Invalid path "${path}": "." and ".." are not allowed`);
+      const encodedPath = segments.map(encodeURIComponent).join("/");
+      const data = await githubRequest(ctx, `${repoPath(repo)}/contents/${encodedPath}${query({ ref })}`);
+
+      if (Array.isArray(data)) {
+        return { type: "directory", path, entries: data.map((e: any) => ({ name: e.name, type: e.type, path: e.path })) };
+      }
+      if (data.type !== "file") return { type: data.type, path: data.path };
+
+      const content = Buffer.from(data.content || "", "base64").toString("utf8");
+      return {
+        type: "file",
+        path: data.path,
+        sha: data.sha,
+        size: data.size,
+        url: data.html_url,
+        truncated: content.length > MAX_FILE_CHARS,
+        content: content.slice(0, MAX_FILE_CHARS),
+      };
+    },
+  },
+  {
+    name: "list_github_commits",
+    description: "List recent commits in a GitHub repository.",
+    provider: "github",
+    scopes: ["repo"],
+    mutating: false,
+    parameters: {
+      type: "object",
+      properties: {
+        repo: repoParam,
+        ref: {
+          type: "string",
+          description: "Branch, tag or SHA to list commits from (defaults to the default branch).",
+        },
+        path: {
+          type: "string",
+          description: "Only commits touching this file path.",
+        },
+        since: {
+          type: "string",
+          description: "Only commits after this ISO 8601 timestamp.",
+        },
+        limit: limitParam,
+      },
+      required: ["repo"],
+    },
+    handler: async ({ repo, ref, path, since, limit }, ctx) => {
+      const commits = await githubRequest(
+        ctx,
+        `${repoPath(repo)}/commits${query({ sha: ref, path, since, per_page: clampLimit(limit) })}`
+      );
+      return commits.map((c: any) => ({
+        sha: c.sha.slice(0, 7),
+        message: c.commit?.message?.split("\n")[0],
+        author: c.author?.login || c.commit?.author?.name,
+        date: c.commit?.author?.date,
+        url: c.html_url,
+      }));
+    },
+  },
+];
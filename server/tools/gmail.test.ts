@@ -0,0 +1,97 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { registerUser } from "../auth";
+import { saveConnection } from "../tokenManager";
+import { executeTool } from "./index";
+
+const user = registerUser("gmail-test", "correct horse battery");
+saveConnection(user.id, "google", "me@example.com", {
+  accessToken: "ya29.test",
+  scopes: "https://www.googleapis.com/auth/gmail.compose https://www.googleapis.com/auth/gmail.readonly",
+});
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+// Answer Gmail API calls with a thread whose latest message has the given headers, returning the raw messages sent
+function mockGmail(headers: Record<string, string>) {
+  const sent: string[] = [];
+  globalThis.fetch = (async (url: string | URL, init?: RequestInit) => {
+    const { pathname } = new URL(url);
+    let json: unknown = {};
+    if (pathname.endsWith("/threads/t1")) {
+      json = { id: "t1", messages: [{ id: "m1", payload: { headers: Object.entries(headers).map(([name, value]) => ({ name, value })) } }] };
+    } else if (pathname.endsWith("/profile")) {
+      json = { emailAddress: "Me@Example.com" };
+    } else if (pathname.endsWith("/drafts")) {
+      sent.push(Buffer.from(JSON.parse(String(init!.body)).message.raw, "base64url").toString("utf8"));
+      json = { id: "d1" };
+    }
+    return new Response(JSON.stringify(json), { status: 200, headers: { "Content-Type": "application/json" } });
+  }) as typeof fetch;
+  return sent;
+}
+
+const headerLine = (raw: string, name: string) => raw.split("\r\n").find((l) => l.startsWith(`${name}: `));
+
+test("a reply to a message with a malformed Message-ID is still drafted, without threading headers", async () => {
+  const sent = mockGmail({ "Message-ID": "not-a-message-id", From: "ann@example.com", Subject: "Plans" });
+
+  const result = await executeTool("reply_to_thread", { thread_id: "t1", body: "Sounds good" }, user.id);
+
+  assert.deepEqual(result, { ok: true, data: { sent: false, draft_id: "d1", thread_id: "t1" } });
+  assert.equal(headerLine(sent[0], "In-Reply-To"), undefined);
+  assert.equal(headerLine(sent[0], "Subject"), "Subject: Re: Plans");
+});
+
+test("reply-all leaves out only the user's own address", async () => {
+  const sent = mockGmail({
+    "Message-ID": "<m1@example.com>",
+    References: "<m0@example.com> broken-id",
+    From: "ann@example.com",
+    To: "Me <ME@example.com>, jimme@example.com, bob@example.com",
+    Cc: "notme@example.com.au",
+    Subject: "Re: Plans",
+  });
+
+  const result = await executeTool("reply_to_thread", { thread_id: "t1", body: "Sounds good", reply_all: true }, user.id);
+
+  assert.equal(result.ok, true);
+  assert.equal(headerLine(sent[0], "To"), "To: ann@example.com, jimme@example.com, bob@example.com");
+  assert.equal(headerLine(sent[0], "Cc"), "Cc: notme@example.com.au");
+  assert.equal(headerLine(sent[0], "In-Reply-To"), "In-Reply-To: <m1@example.com>");
+  assert.match(sent[0], /References: <m0@example\.com>\r\n <m1@example\.com>\r\n/);
+});
+
+test("reply-all to the user's own message goes to its recipients, not back to the user", async () => {
+  const sent = mockGmail({
+    "Message-ID": "<m2@example.com>",
+    From: "Me <me@example.com>",
+    To: "ann@example.com",
+    Cc: "me@example.com, bob@example.com",
+    Subject: "Plans",
+  });
+
+  const result = await executeTool("reply_to_thread", { thread_id: "t1", body: "One more thing", reply_all: true }, user.id);
+
+  assert.equal(result.ok, true);
+  assert.equal(headerLine(sent[0], "To"), "To: ann@example.com");
+  assert.equal(headerLine(sent[0], "Cc"), "Cc: bob@example.com");
+});
+
+test("replying needs read access to the thread as well as compose", async () => {
+  const composeOnly = registerUser("gmail-compose-only", "correct horse battery");
+  saveConnection(composeOnly.id, "google", "me@example.com", {
+    accessToken: "ya29.test",
+    scopes: "https://www.googleapis.com/auth/gmail.compose",
+  });
+  const sent = mockGmail({ "Message-ID": "<m1@example.com>", From: "ann@example.com", Subject: "Plans" });
+
+  const result = await executeTool("reply_to_thread", { thread_id: "t1", body: "Sounds good" }, composeOnly.id);
+
+  assert.equal(result.ok, false);
+  assert.equal((result as any).code, "missing_scopes");
+  assert.deepEqual(sent, []);
+});
@@ -0,0 +1,321 @@
+import { fetchWithToken, ToolContext, ToolDefinition, JsonSchema, ToolError, ProviderApiError, retryAfterSeconds } from "./registry";
+import { ProviderAuthError } from "../tokenManager";
+import { addressOf, buildMimeMessage, isMessageId, MimeError, MimeMessage, splitAddresses } from "../mime";
+
+const READONLY_SCOPE = "https://www.googleapis.com/auth/gmail.readonly";
+const COMPOSE_SCOPE = "https://www.googleapis.com/auth/gmail.compose";
+
+// Keep long threads from flooding the model's context
+const MAX_BODY_CHARS = 20_000;
+
+async function gmailRequest(ctx: ToolContext, endpoint: string, init: { method?: string; body?: any } = {}) {
+  const response = await fetchWithToken(ctx, (accessToken) => fetch(`https://gmail.googleapis.com/gmail/v1/users/me${endpoint}`, {
+    method: init.method || "GET",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+    signal: ctx.signal,
+  }));
+
+  if (response.status === 401) throw new ProviderAuthError("google");
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    // Google reports quota exhaustion as 403 with a rate limit reason
+    const reason = data.error?.errors?.[0]?.reason;
+    throw new ProviderApiError(data.error?.message || `Gmail API error (${response.status})`, response.status, {
+      rateLimited: response.status === 429 || reason === "rateLimitExceeded" || reason === "userRateLimitExceeded",
+      retryAfter: retryAfterSeconds(response),
+    });
+  }
+  return data;
+}
+
+interface AttachmentArg {
+  filename: string;
+  mime_type?: string;
+  content?: string;
+  content_base64?: string;
+}
+
+type MessageArgs = Omit<MimeMessage, "attachments"> & { attachments?: AttachmentArg[] };
+
+// Build the base64url "raw" field Gmail expects, reporting bad arguments back to the model
+function encodeMessage({ attachments, ...message }: MessageArgs) {
+  try {
+    const mime = buildMimeMessage({
+      ...message,
+      attachments: attachments?.map((a) => ({
+        filename: a.filename,
+        mimeType: a.mime_type,
+        content: a.content_base64 ? Buffer.from(a.content_base64, "base64") : a.content || "",
+      })),
+    });
+    return Buffer.from(mime).toString("base64url");
+  } catch (error) {
+    if (error instanceof MimeError) throw new ToolError("invalid_arguments", error.message);
+    throw error;
+  }
+}
+
+function header(payload: any, name: string): string | undefined {
+  return payload?.headers?.find((h: any) => h.name.toLowerCase() === name.toLowerCase())?.value;
+}
+
+// Collect the text and attachments of a message, preferring text/plain over HTML
+function readPayload(payload: any) {
+  const plain: string[] = [];
+  const html: string[] = [];
+  const attachments: { filename: string; mime_type: string; size: number }[] = [];
+
+  const walk = (part: any) => {
+    if (part.filename && part.body?.attachmentId) {
+      attachments.push({ filename: part.filename, mime_type: part.mimeType, size: part.body.size });
+    } else if (part.body?.data) {
+      const text = Buffer.from(part.body.data, "base64url").toString("utf8");
+      if (part.mimeType === "text/plain") plain.push(text);
+      else if (part.mimeType === "text/html") html.push(text);
+    }
+    (part.parts || []).forEach(walk);
+  };
+  walk(payload);
+
+  const body = plain.length
+    ? plain.join("\n")
+    : html.join("\n").replace(/<style[\s\S]*?<\/style>/gi, "").replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
+  return { body: body.slice(0, MAX_BODY_CHARS), truncated: body.length > MAX_BODY_CHARS, attachments };
+}
+
+const recipientParams: Record<string, JsonSchema> = {
+  cc: {
+    type: "string",
+    description: "Comma-separated CC recipients.",
+  },
+  bcc: {
+    type: "string",
+    description: "Comma-separated BCC recipients.",
+  },
+  body: {
+    type: "string",
+    description: "The plain text body of the email.",
+  },
+  html: {
+    type: "string",
+    description: "Optional HTML version of the body.",
+  },
+  attachments: {
+    type: "array",
+    description: "Files to attach.",
+    items: {
+      type: "object",
+      properties: {
+        filename: { type: "string", description: "File name shown to the recipient." },
+        mime_type: { type: "string", description: "MIME type, e.g. 'text/csv' (default application/octet-stream)." },
+        content: { type: "string", description: "File contents as text." },
+        content_base64: { type: "string", description: "File contents as base64, for binary files." },
+      },
+      required: ["filename"],
+    },
+  },
+};
+
+export const gmailTools: ToolDefinition[] = [
+  {
+    name: "send_gmail",
+    description: "Send an email using the user's connected Gmail account.",
+    provider: "google",
+    scopes: ["https://www.googleapis.com/auth/gmail.send"],
+    mutating: true,
+    parameters: {
+      type: "object",
+      properties: {
+        to: {
+          type: "string",
+          description: "Comma-separated recipients.",
+        },
+        subject: {
+          type: "string",
+          description: "The subject of the email.",
+        },
+        ...recipientParams,
+      },
+      required: ["to", "subject", "body"],
+    },
+    handler: async ({ to, cc, bcc, subject, body, html, attachments }, ctx) => {
+      const raw = encodeMessage({ to, cc, bcc, subject, text: body, html, attachments });
+      const result = await gmailRequest(ctx, "/messages/send", { method: "POST", body: { raw } });
+      return { success: true, id: result.id };
+    },
+  },
+  {
+    name: "search_gmail",
+    description: "Search the user's Gmail using Gmail search syntax (e.g. 'is:unread from:alice newer_than:7d').",
+    provider: "google",
+    scopes: [READONLY_SCOPE],
+    mutating: false,
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Gmail search query.",
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of messages to return (1-50, default 10).",
+        },
+      },
+      required: ["query"],
+    },
+    handler: async ({ query, limit }, ctx) => {
+      const maxResults = Math.min(Math.max(limit || 10, 1), 50);
+      const list = await gmailRequest(ctx, `/messages?${new URLSearchParams({ q: query, maxResults: String(maxResults) })}`);
+      const metadata = "format=metadata&metadataHeaders=From&metadataHeaders=To&metadataHeaders=Subject&metadataHeaders=Date";
+      const messages = await Promise.all(
+        (list.messages || []).map((m: any) => gmailRequest(ctx, `/messages/${m.id}?${metadata}`))
+      );
+      return messages.map((m: any) => ({
+        id: m.id,
+        thread_id: m.threadId,
+        from: header(m.payload, "From"),
+        to: header(m.payload, "To"),
+        subject: header(m.payload, "Subject"),
+        date: header(m.payload, "Date"),
+        snippet: m.snippet,
+        unread: (m.labelIds || []).includes("UNREAD"),
+      }));
+    },
+  },
+  {
+    name: "read_gmail_thread",
+    description: "Read every message in a Gmail thread, including bodies and attachment names.",
+    provider: "google",
+    scopes: [READONLY_SCOPE],
+    mutating: false,
+    parameters: {
+      type: "object",
+      properties: {
+        thread_id: {
+          type: "string",
+          description: "The thread ID, as returned by search_gmail.",
+        },
+      },
+      required: ["thread_id"],
+    },
+    handler: async ({ thread_id }, ctx) => {
+      const thread = await gmailRequest(ctx, `/threads/${encodeURIComponent(thread_id)}?format=full`);
+      return {
+        thread_id: thread.id,
+        messages: (thread.messages || []).map((m: any) => ({
+          id: m.id,
+          from: header(m.payload, "From"),
+          to: header(m.payload, "To"),
+          cc: header(m.payload, "Cc"),
+          subject: header(m.payload, "Subject"),
+          date: header(m.payload, "Date"),
+          ...readPayload(m.payload),
+        })),
+      };
+    },
+  },
+  {
+    name: "create_gmail_draft",
+    description: "Create a Gmail draft for the user to review and send later.",
+    provider: "google",
+    scopes: [COMPOSE_SCOPE],
+    mutating: true,
+    parameters: {
+      type: "object",
+      properties: {
+        to: {
+          type: "string",
+          description: "Comma-separated recipients.",
+        },
+        subject: {
+          type: "string",
+          description: "The subject of the email.",
+        },
+        ...recipientParams,
+      },
+      required: ["to", "subject", "body"],
+    },
+    handler: async ({ to, cc, bcc, subject, body, html, attachments }, ctx) => {
+      const raw = encodeMessage({ to, cc, bcc, subject, text: body, html, attachments });
+      const draft = await gmailRequest(ctx, "/drafts", { method: "POST", body: { message: { raw } } });
+      return { draft_id: draft.id, message_id: draft.message?.id };
+    },
+  },
+  {
+    name: "reply_to_thread",
+    description: "Reply to the latest message in a Gmail thread. Creates a draft by default; set send to true to send immediately.",
+    provider: "google",
+    // Reads the thread (and the user's profile for reply-all) before composing
+    scopes: [COMPOSE_SCOPE, READONLY_SCOPE],
+    mutating: true,
+    parameters: {
+      type: "object",
+      properties: {
+        thread_id: {
+          type: "string",
+          description: "The thread ID to reply in.",
+        },
+        reply_all: {
+          type: "boolean",
+          description: "Also address the other recipients of the latest message.",
+        },
+        send: {
+          type: "boolean",
+          description: "Send the reply instead of saving it as a draft (default false).",
+        },
+        ...recipientParams,
+      },
+      required: ["thread_id", "body"],
+    },
+    handler: async ({ thread_id, reply_all, send, cc, bcc, body, html, attachments }, ctx) => {
+      const metadata = ["Message-ID", "References", "Subject", "From", "Reply-To", "To", "Cc"]
+        .map((h) => `metadataHeaders=${h}`)
+        .join("&");
+      const thread = await gmailRequest(ctx, `/threads/${encodeURIComponent(thread_id)}?format=metadata&${metadata}`);
+      const last = thread.messages?.[thread.messages.length - 1];
+      if (!last) throw new Error("Thread has no messages");
+
+      // A malformed Message-ID only costs the reply its threading headers, not the reply itself
+      const rawMessageId = header(last.payload, "Message-ID")?.trim();
+      const messageId = rawMessageId && isMessageId(rawMessageId) ? rawMessageId : undefined;
+      const subject = header(last.payload, "Subject") || "";
+      let to = splitAddresses(header(last.payload, "Reply-To") || header(last.payload, "From") || "");
+      const ccList = cc ? [cc] : [];
+
+      if (reply_all) {
+        const profile = await gmailRequest(ctx, "/profile");
+        const self = (profile.emailAddress || "").toLowerCase();
+        // Compare whole addresses so e.g. "bob@example.com" does not drop "jimbob@example.com"
+        const notSelf = (address: string) => !(self && addressOf(address).toLowerCase() === self);
+        to = [...to, ...splitAddresses(header(last.payload, "To") || "")].filter(notSelf);
+        ccList.push(...splitAddresses(header(last.payload, "Cc") || "").filter(notSelf));
+      }
+
+      const raw = encodeMessage({
+        to,
+        cc: ccList,
+        bcc,
+        subject: /^re:/i.test(subject) ? subject : `Re: ${subject}`,
+        text: body,
+        html,
+        inReplyTo: messageId,
+        // Drop malformed IDs other clients left in the chain rather than refusing to reply
+        references: `${header(last.payload, "References") || ""} ${messageId || ""}`.match(/<[^<>\s@]+@[^<>\s]+>/g) || [],
+        attachments,
+      });
+
+      const message = { raw, threadId: thread.id };
+      if (send) {
+        const sent = await gmailRequest(ctx, "/messages/send", { method: "POST", body: message });
+        return { sent: true, message_id: sent.id, thread_id: sent.threadId };
+      }
+      const draft = await gmailRequest(ctx, "/drafts", { method: "POST", body: { message } });
+      return { sent: false, draft_id: draft.id, thread_id: thread.id };
+    },
+  },
+];
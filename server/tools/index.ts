@@ -0,0 +1,13 @@
+import { registerTools } from "./registry";
+import { githubTools } from "./github";
+import { gmailTools } from "./gmail";
+import { notionTools } from "./notion";
+import { memoryTools } from "./memory";
+
+registerTools(githubTools);
+registerTools(gmailTools);
+registerTools(notionTools);
+registerTools(memoryTools);
+
+export { executeTool, getTool, listTools, toolFailure, usableConnection, ToolError, ProviderApiError } from "./registry";
+export type { ToolDefinition, ToolContext, ToolResult, ToolErrorCode, JsonSchema, Provider } from "./registry";
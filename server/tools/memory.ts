@@ -0,0 +1,74 @@
+import { ToolDefinition, ToolError } from "./registry";
+import { createMemory, deleteMemory, MemoryError, searchMemories } from "../memory";
+
+const RECALL_LIMIT = 20;
+
+// What is remembered goes into later system prompts, so writing it needs approval like any other
+// change: otherwise an unattended run could be talked into planting instructions by a webhook payload.
+export const memoryTools: ToolDefinition[] = [
+  {
+    name: "remember_fact",
+    description:
+      "Remember a lasting fact or preference about the user or their work for future conversations, e.g. their default GitHub repo, their team's email addresses or how they like issues formatted. Save one self-contained fact per call. Never store passwords, tokens or other secrets.",
+    provider: null,
+    scopes: [],
+    mutating: true,
+    parameters: {
+      type: "object",
+      properties: {
+        fact: {
+          type: "string",
+          description: "The fact as a short standalone sentence, e.g. \"Default GitHub repo is acme/app\".",
+        },
+      },
+      required: ["fact"],
+    },
+    handler: async ({ fact }, ctx) => {
+      try {
+        const { memory, created } = createMemory(ctx.userId, fact);
+        return { id: memory.id, fact: memory.content, ...(created ? {} : { note: "This was already remembered." }) };
+      } catch (error) {
+        if (error instanceof MemoryError) throw new ToolError("invalid_request", error.message);
+        throw error;
+      }
+    },
+  },
+  {
+    name: "recall_facts",
+    description:
+      "Search what you remember about the user. The most relevant memories are already in your instructions; use this to look for others before asking the user something they may have told you before.",
+    provider: null,
+    scopes: [],
+    mutating: false,
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Words to look for, e.g. \"repo\" or \"email\". Leave empty for the most recent memories.",
+        },
+      },
+    },
+    handler: async ({ query }, ctx) => {
+      return searchMemories(ctx.userId, query || "", RECALL_LIMIT).map((m) => ({ id: m.id, fact: m.content, updated: m.updated_at }));
+    },
+  },
+  {
+    name: "forget_fact",
+    description: "Forget a remembered fact by its id, e.g. when the user says it is wrong or no longer applies.",
+    provider: null,
+    scopes: [],
+    mutating: true,
+    parameters: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "The memory's id from your instructions or recall_facts." },
+      },
+      required: ["id"],
+    },
+    handler: async ({ id }, ctx) => {
+      if (!deleteMemory(ctx.userId, id)) throw new ToolError("not_found", "No memory with that id");
+      return { forgotten: id };
+    },
+  },
+];
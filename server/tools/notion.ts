@@ -0,0 +1,286 @@
+import { fetchWithToken, ToolContext, ToolDefinition, ProviderApiError, retryAfterSeconds } from "./registry";
+import { ProviderAuthError } from "../tokenManager";
+
+const NOTION_VERSION = "2022-06-28";
+
+// Stop reading long pages here rather than flooding the model's context
+const MAX_PAGE_BLOCKS = 1000;
+
+async function notionRequest(ctx: ToolContext, endpoint: string, init: { method?: string; body?: any } = {}) {
+  const response = await fetchWithToken(ctx, (accessToken) => fetch(`https://api.notion.com/v1${endpoint}`, {
+    method: init.method || "GET",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Notion-Version": NOTION_VERSION,
+      "Content-Type": "application/json",
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+    signal: ctx.signal,
+  }));
+
+  if (response.status === 401) throw new ProviderAuthError("notion");
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ProviderApiError(data.message || `Notion API error (${response.status})`, response.status, {
+      retryAfter: retryAfterSeconds(response),
+    });
+  }
+  return data;
+}
+
+// Notion caps a single rich text object at 2000 characters
+function toRichText(text: string, annotations: Record<string, boolean> = {}, link?: string) {
+  const parts = [];
+  for (let i = 0; i < text.length; i += 2000) {
+    parts.push({
+      type: "text",
+      text: { content: text.slice(i, i + 2000), link: link ? { url: link } : null },
+      annotations,
+    });
+  }
+  return parts;
+}
+
+// Convert inline markdown (**bold**, *italic*, `code`, [text](url)) to Notion rich text
+function parseInlineMarkdown(text: string) {
+  const richText: any[] = [];
+  const pattern = /(\*\*([^*]+)\*\*|\*([^*]+)\*|`([^`]+)`|\[([^\]]+)\]\(([^)]+)\))/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) richText.push(...toRichText(text.slice(lastIndex, match.index)));
+    if (match[2]) richText.push(...toRichText(match[2], { bold: true }));
+    else if (match[3]) richText.push(...toRichText(match[3], { italic: true }));
+    else if (match[4]) richText.push(...toRichText(match[4], { code: true }));
+    else if (match[5]) richText.push(...toRichText(match[5], {}, match[6]));
+    lastIndex = pattern.lastIndex;
+  }
+  if (lastIndex < text.length) richText.push(...toRichText(text.slice(lastIndex)));
+  return richText;
+}
+
+function markdownToNotionBlocks(markdown: string) {
+  const blocks: any[] = [];
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const block = (type: string, payload: any) => ({ object: "block", type, [type]: payload });
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trim().startsWith("```")) {
+      const language = line.trim().slice(3).trim() || "plain text";
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith("```")) code.push(lines[i]);
+      blocks.push(block("code", { rich_text: toRichText(code.join("\n")), language }));
+      continue;
+    }
+
+    if (!line.trim()) continue;
+
+    let m: RegExpMatchArray | null;
+    if ((m = line.match(/^(#{1,3})\s+(.*)$/))) {
+      blocks.push(block(`heading_${m[1].length}`, { rich_text: parseInlineMarkdown(m[2]) }));
+    } else if (/^(-{3,}|\*{3,})$/.test(line.trim())) {
+      blocks.push(block("divider", {}));
+    } else if ((m = line.match(/^\s*[-*]\s+\[( |x|X)\]\s+(.*)$/))) {
+      blocks.push(block("to_do", { rich_text: parseInlineMarkdown(m[2]), checked: m[1].toLowerCase() === "x" }));
+    } else if ((m = line.match(/^\s*[-*]\s+(.*)$/))) {
+      blocks.push(block("bulleted_list_item", { rich_text: parseInlineMarkdown(m[1]) }));
+    } else if ((m = line.match(/^\s*\d+[.)]\s+(.*)$/))) {
+      blocks.push(block("numbered_list_item", { rich_text: parseInlineMarkdown(m[1]) }));
+    } else if ((m = line.match(/^>\s?(.*)$/))) {
+      blocks.push(block("quote", { rich_text: parseInlineMarkdown(m[1]) }));
+    } else {
+      blocks.push(block("paragraph", { rich_text: parseInlineMarkdown(line) }));
+    }
+  }
+
+  return blocks;
+}
+
+// Flatten Notion blocks back to readable text for the model
+function notionBlocksToText(blocks: any[]) {
+  return blocks
+    .map((b) => {
+      const richText = b[b.type]?.rich_text || [];
+      const text = richText.map((t: any) => t.plain_text).join("");
+      switch (b.type) {
+        case "heading_1": return `# ${text}`;
+        case "heading_2": return `## ${text}`;
+        case "heading_3": return `### ${text}`;
+        case "bulleted_list_item": return `- ${text}`;
+        case "numbered_list_item": return `1. ${text}`;
+        case "to_do": return `- [${b.to_do.checked ? "x" : " "}] ${text}`;
+        case "quote": return `> ${text}`;
+        case "code": return "```\n" + text + "\n```";
+        case "divider": return "---";
+        default: return text;
+      }
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+function notionPageTitle(page: any) {
+  const props = page.properties || {};
+  const titleProp: any = Object.values(props).find((p: any) => p.type === "title");
+  if (titleProp) return titleProp.title.map((t: any) => t.plain_text).join("");
+  return page.title?.map((t: any) => t.plain_text).join("") || "Untitled";
+}
+
+export const notionTools: ToolDefinition[] = [
+  {
+    name: "search_notion",
+    description: "Search pages and databases in the user's connected Notion workspace.",
+    provider: "notion",
+    scopes: [],
+    mutating: false,
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "The text to search for in page and database titles.",
+        },
+        type: {
+          type: "string",
+          description: "Optionally restrict results to 'page' or 'database'.",
+          enum: ["page", "database"],
+        },
+      },
+      required: ["query"],
+    },
+    handler: async ({ query, type }, ctx) => {
+      const data = await notionRequest(ctx, "/search", {
+        method: "POST",
+        body: {
+          query: query || "",
+          page_size: 10,
+          ...(type ? { filter: { property: "object", value: type } } : {}),
+        },
+      });
+      return data.results.map((r: any) => ({
+        id: r.id,
+        type: r.object,
+        title: notionPageTitle(r),
+        url: r.url,
+        last_edited: r.last_edited_time,
+      }));
+    },
+  },
+  {
+    name: "get_notion_page",
+    description: "Read a Notion page's title and content as markdown.",
+    provider: "notion",
+    scopes: [],
+    mutating: false,
+    parameters: {
+      type: "object",
+      properties: {
+        page_id: {
+          type: "string",
+          description: "The ID of the Notion page.",
+        },
+      },
+      required: ["page_id"],
+    },
+    handler: async ({ page_id }, ctx) => {
+      const id = encodeURIComponent(page_id);
+      const page = await notionRequest(ctx, `/pages/${id}`);
+
+      // Notion returns at most 100 blocks per request
+      const blocks: any[] = [];
+      let cursor: string | undefined;
+      do {
+        const params = new URLSearchParams({ page_size: "100", ...(cursor ? { start_cursor: cursor } : {}) });
+        const children = await notionRequest(ctx, `/blocks/${id}/children?${params}`);
+        blocks.push(...children.results);
+        cursor = children.has_more ? children.next_cursor : undefined;
+      } while (cursor && blocks.length < MAX_PAGE_BLOCKS);
+
+      return {
+        id: page.id,
+        title: notionPageTitle(page),
+        url: page.url,
+        content: notionBlocksToText(blocks),
+        ...(cursor ? { truncated: true, note: `Only the first ${blocks.length} blocks of this page were read.` } : {}),
+      };
+    },
+  },
+  {
+    name: "create_notion_page",
+    description: "Create a new Notion page under an existing parent page.",
+    provider: "notion",
+    scopes: [],
+    mutating: true,
+    parameters: {
+      type: "object",
+      properties: {
+        parent_page_id: {
+          type: "string",
+          description: "The ID of the parent page. Use search_notion to find it.",
+        },
+        title: {
+          type: "string",
+          description: "The title of the new page.",
+        },
+        content: {
+          type: "string",
+          description: "The page content in markdown (headings, lists, to-dos, quotes, code blocks).",
+        },
+      },
+      required: ["parent_page_id", "title"],
+    },
+    handler: async ({ parent_page_id, title, content }, ctx) => {
+      const blocks = markdownToNotionBlocks(content || "");
+      const page = await notionRequest(ctx, "/pages", {
+        method: "POST",
+        body: {
+          parent: { page_id: parent_page_id },
+          properties: { title: { title: toRichText(title) } },
+          children: blocks.slice(0, 100),
+        },
+      });
+      // Notion accepts at most 100 children per request
+      for (let i = 100; i < blocks.length; i += 100) {
+        await notionRequest(ctx, `/blocks/${encodeURIComponent(page.id)}/children`, {
+          method: "PATCH",
+          body: { children: blocks.slice(i, i + 100) },
+        });
+      }
+      return { id: page.id, url: page.url };
+    },
+  },
+  {
+    name: "append_notion_blocks",
+    description: "Append markdown content to the end of an existing Notion page or block.",
+    provider: "notion",
+    scopes: [],
+    mutating: true,
+    parameters: {
+      type: "object",
+      properties: {
+        block_id: {
+          type: "string",
+          description: "The ID of the page or block to append to.",
+        },
+        content: {
+          type: "string",
+          description: "The content to append in markdown.",
+        },
+      },
+      required: ["block_id", "content"],
+    },
+    handler: async ({ block_id, content }, ctx) => {
+      const blocks = markdownToNotionBlocks(content);
+      for (let i = 0; i < blocks.length; i += 100) {
+        await notionRequest(ctx, `/blocks/${encodeURIComponent(block_id)}/children`, {
+          method: "PATCH",
+          body: { children: blocks.slice(i, i + 100) },
+        });
+      }
+      return { success: true, appended: blocks.length };
+    },
+  },
+];
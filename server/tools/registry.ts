@@ -0,0 +1,314 @@
+import { callTokens, getConnection, ProviderAuthError } from "../tokenManager";
+import { getProvider, TokenRequestError } from "../providers";
+import { recordToolCall } from "../audit";
+import { reserveToolCall, UsageLimitError } from "../usage";
+
+/** Id of an OAuth provider from server/providers.ts */
+export type Provider = string;
+
+export interface JsonSchema {
+  type: "object" | "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+}
+
+export interface ToolContext {
+  userId: string;
+  /** The connection's token; built-in tools have none */
+  accessToken?: string;
+  /** Swap a token the provider rejected with 401 for a refreshed one; provider requests go through fetchWithToken */
+  refreshAccessToken?: (rejected: string) => Promise<string>;
+  /** Aborted when the agent run is stopped; pass it on to fetch() */
+  signal?: AbortSignal;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** Null for built-in tools, which run inside Nexus and need no connection */
+  provider: Provider | null;
+  parameters: JsonSchema;
+  /** OAuth scopes the stored connection must have been granted */
+  scopes: string[];
+  /** Mutating tools change external state and need user approval before they run */
+  mutating: boolean;
+  handler: (args: any, ctx: ToolContext) => Promise<unknown>;
+}
+
+export type ToolErrorCode =
+  | "unknown_tool"
+  | "invalid_arguments"
+  | "not_connected"
+  | "reauth_required"
+  | "missing_scopes"
+  | "permission_denied"
+  | "not_found"
+  | "invalid_request"
+  | "rate_limited"
+  | "quota_exceeded"
+  | "provider_error"
+  | "provider_unavailable"
+  | "rejected"
+  | "cancelled"
+  | "internal_error";
+
+/** What every tool call resolves to, whether it succeeded or not */
+export interface ToolResult<T = unknown> {
+  ok: boolean;
+  /** Set when ok is false */
+  code?: ToolErrorCode;
+  message?: string;
+  /** Whether the same call may succeed if repeated later */
+  retryable?: boolean;
+  /** Seconds to wait before retrying, as asked by the provider or until a usage limit resets */
+  retryAfter?: number;
+  details?: string[];
+  data?: T;
+}
+
+// HTTP status matching each failure
+const ERROR_STATUS: Record<ToolErrorCode, number> = {
+  unknown_tool: 404,
+  invalid_arguments: 400,
+  not_connected: 400,
+  reauth_required: 401,
+  missing_scopes: 403,
+  permission_denied: 403,
+  not_found: 404,
+  invalid_request: 422,
+  rate_limited: 429,
+  quota_exceeded: 429,
+  provider_error: 502,
+  provider_unavailable: 503,
+  rejected: 409,
+  // As nginx does for requests the client gave up on
+  cancelled: 499,
+  internal_error: 500,
+};
+
+const RETRYABLE_CODES: ToolErrorCode[] = ["rate_limited", "provider_error", "provider_unavailable"];
+
+export class ToolError extends Error {
+  constructor(public code: ToolErrorCode, message: string, public details?: string[]) {
+    super(message);
+    this.name = "ToolError";
+  }
+
+  get status() {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+function codeForProviderStatus(status: number): ToolErrorCode {
+  if (status === 401) return "reauth_required";
+  if (status === 403) return "permission_denied";
+  if (status === 404) return "not_found";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "provider_error";
+  return "invalid_request";
+}
+
+/** A provider API rejected the request; providerStatus is the HTTP status it returned */
+export class ProviderApiError extends ToolError {
+  public retryAfter?: number;
+
+  constructor(message: string, public providerStatus: number, options: { rateLimited?: boolean; retryAfter?: number } = {}) {
+    super(options.rateLimited ? "rate_limited" : codeForProviderStatus(providerStatus), message);
+    this.name = "ProviderApiError";
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/** Send a provider request with the call's token, repeating just this request with a refreshed token if it comes back 401 */
+export async function fetchWithToken(ctx: ToolContext, send: (accessToken: string) => Promise<Response>) {
+  let accessToken = ctx.accessToken!;
+  let response = await send(accessToken);
+  // refreshAccessToken gives up by throwing once a refreshed token is rejected as well
+  while (response.status === 401 && ctx.refreshAccessToken) {
+    accessToken = await ctx.refreshAccessToken(accessToken);
+    response = await send(accessToken);
+  }
+  return response;
+}
+
+/** Seconds to wait according to a Retry-After header (delta-seconds or HTTP date) */
+export function retryAfterSeconds(response: Response) {
+  const value = response.headers.get("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+export function toolFailure(error: any): ToolResult {
+  if (error instanceof ToolError) {
+    return {
+      ok: false,
+      code: error.code,
+      message: error.message,
+      retryable: RETRYABLE_CODES.includes(error.code),
+      ...(error instanceof ProviderApiError && error.retryAfter !== undefined ? { retryAfter: error.retryAfter } : {}),
+      ...(error.details ? { details: error.details } : {}),
+    };
+  }
+  if (error instanceof UsageLimitError) {
+    return { ok: false, code: "quota_exceeded", message: error.message, retryable: false, retryAfter: error.retryAfter };
+  }
+  // fetch() rejects with the abort reason when the run is stopped or runs out of time
+  if (error?.name === "AbortError" || error?.name === "TimeoutError") {
+    return { ok: false, code: "cancelled", message: "The run was stopped before this call finished", retryable: false };
+  }
+  // fetch() rejects with a TypeError when the provider cannot be reached at all
+  if (error instanceof TypeError && error.message === "fetch failed") {
+    return { ok: false, code: "provider_unavailable", message: "The provider could not be reached", retryable: true };
+  }
+  return { ok: false, code: "internal_error", message: error?.message || "Tool failed", retryable: false };
+}
+
+const registry = new Map<string, ToolDefinition>();
+
+export function registerTools(tools: ToolDefinition[]) {
+  for (const tool of tools) {
+    if (registry.has(tool.name)) throw new Error(`Tool "${tool.name}" is already registered`);
+    registry.set(tool.name, tool);
+  }
+}
+
+export function getTool(name: string) {
+  return registry.get(name);
+}
+
+export function listTools() {
+  return [...registry.values()];
+}
+
+function typeOf(value: unknown) {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+export function validateArgs(schema: JsonSchema, value: unknown, path = "args"): string[] {
+  const actual = typeOf(value);
+  const matches = schema.type === "number" ? actual === "number" || actual === "integer" : actual === schema.type;
+  if (!matches) return [`${path} must be of type ${schema.type}`];
+
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(", ")}`);
+  }
+
+  if (schema.type === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined || obj[key] === null) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+      if (obj[key] !== undefined && obj[key] !== null) {
+        errors.push(...validateArgs(propSchema, obj[key], `${path}.${key}`));
+      }
+    }
+  }
+
+  if (schema.type === "array" && schema.items) {
+    (value as unknown[]).forEach((item, i) => errors.push(...validateArgs(schema.items!, item, `${path}[${i}]`)));
+  }
+
+  return errors;
+}
+
+const providerLabel = (provider: Provider) => getProvider(provider)?.label || provider;
+
+/** The connection a tool would run with, throwing if it is missing or lacks scopes; built-in tools have none */
+export function usableConnection(tool: ToolDefinition, userId: string) {
+  if (tool.provider === null) return undefined;
+
+  const label = providerLabel(tool.provider);
+  const connection = getConnection(userId, tool.provider);
+  if (!connection) throw new ToolError("not_connected", `${label} not connected`);
+  if (connection.status === "needs_reauth") {
+    throw new ToolError("reauth_required", `${label} needs to be reconnected`);
+  }
+
+  // Connections made before scopes were recorded are assumed to have everything
+  if (connection.scopes !== null) {
+    const granted = connection.scopes.split(/[\s,]+/);
+    const missing = tool.scopes.filter((s) => !granted.includes(s));
+    if (missing.length) {
+      throw new ToolError("missing_scopes", `${label} connection is missing scopes: ${missing.join(", ")}. Reconnect it from the Connectors panel to grant them.`);
+    }
+  }
+  return connection;
+}
+
+async function runTool(tool: ToolDefinition | undefined, args: unknown, userId: string, signal?: AbortSignal) {
+  if (!tool) throw new ToolError("unknown_tool", "Tool not found");
+
+  const errors = validateArgs(tool.parameters, args ?? {});
+  if (errors.length) throw new ToolError("invalid_arguments", "Invalid tool arguments", errors);
+
+  const connection = usableConnection(tool, userId);
+  if (!connection) return tool.handler(args ?? {}, { userId, signal });
+
+  const label = providerLabel(connection.provider);
+  try {
+    const tokens = await callTokens(connection);
+    return await tool.handler(args ?? {}, {
+      userId,
+      get accessToken() {
+        return tokens.current;
+      },
+      refreshAccessToken: tokens.refresh,
+      signal,
+    });
+  } catch (error) {
+    if (error instanceof ProviderAuthError) {
+      throw new ProviderApiError(`${label} authorization expired. Reconnect it from the Connectors panel.`, 401);
+    }
+    if (error instanceof TokenRequestError) {
+      throw new ProviderApiError(`${label} could not refresh its token: ${error.message}`, error.status === 429 || error.status >= 500 ? error.status : 502);
+    }
+    throw error;
+  }
+}
+
+/** Run a tool for a user and record the call in the audit log. Failures are returned, never thrown. */
+export async function executeTool(
+  name: string,
+  args: unknown,
+  userId: string,
+  conversationId: string | null = null,
+  signal?: AbortSignal
+): Promise<ToolResult> {
+  const tool = registry.get(name);
+  const started = Date.now();
+  const audit = { userId, conversationId, toolName: name, provider: tool?.provider ?? null, args };
+  let release: (() => void) | undefined;
+
+  try {
+    signal?.throwIfAborted();
+    release = reserveToolCall(userId);
+    const data = await runTool(tool, args, userId, signal);
+    recordToolCall({ ...audit, status: "success", result: data, latencyMs: Date.now() - started });
+    return { ok: true, data };
+  } catch (error: any) {
+    const result = toolFailure(error);
+    if (result.code === "internal_error") console.error(`Tool ${name} failed:`, error);
+    recordToolCall({
+      ...audit,
+      status: "error",
+      error: `${result.code}: ${result.message}`,
+      latencyMs: Date.now() - started,
+      httpStatus: error instanceof ProviderApiError ? error.providerStatus : undefined,
+    });
+    return result;
+  } finally {
+    // The audit row now counts this call
+    release?.();
+  }
+}
@@ -0,0 +1,177 @@
+import { db } from "./db";
+import type { TokenUsage } from "./llm";
+
+/** A user went over one of the configured usage limits; retryAfter is in seconds */
+export class UsageLimitError extends Error {
+  constructor(message: string, public retryAfter: number, public status = 429) {
+    super(message);
+    this.name = "UsageLimitError";
+  }
+}
+
+/** Per-user limits from the environment; 0 means unlimited. Daily limits reset at midnight UTC. */
+export interface UsageLimits {
+  tokensPerDay: number;
+  modelRequestsPerDay: number;
+  modelRequestsPerMinute: number;
+  toolCallsPerDay: number;
+  toolCallsPerMinute: number;
+}
+
+export interface ProviderUsage {
+  provider: string;
+  kind: "model" | "tool";
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageSummary {
+  day: { since: number; resetsAt: number; modelRequests: number; inputTokens: number; outputTokens: number; toolCalls: number };
+  minute: { modelRequests: number; toolCalls: number };
+  limits: UsageLimits;
+  /** Today's usage broken down by model backend and by connected app */
+  providers: ProviderUsage[];
+}
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Tool calls are counted from the audit log. Calls the user declined or that were refused for
+// quota never reached the provider, so they do not count.
+const COUNTED_TOOL_CALLS = "status != 'rejected' AND (error IS NULL OR error NOT LIKE 'quota_exceeded:%')";
+
+function envLimit(name: string) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+}
+
+export function usageLimits(): UsageLimits {
+  return {
+    tokensPerDay: envLimit("USAGE_TOKENS_PER_DAY"),
+    modelRequestsPerDay: envLimit("USAGE_MODEL_REQUESTS_PER_DAY"),
+    modelRequestsPerMinute: envLimit("USAGE_MODEL_REQUESTS_PER_MINUTE"),
+    toolCallsPerDay: envLimit("USAGE_TOOL_CALLS_PER_DAY"),
+    toolCallsPerMinute: envLimit("USAGE_TOOL_CALLS_PER_MINUTE"),
+  };
+}
+
+function startOfDay(now: number) {
+  const day = new Date(now);
+  day.setUTCHours(0, 0, 0, 0);
+  return day.getTime();
+}
+
+/** Record one request to the model backend, with the tokens it reported if any */
+export function recordModelUsage(userId: string, provider: string, model: string, usage?: TokenUsage) {
+  db.prepare(`
+    INSERT INTO model_usage (user_id, provider, model, input_tokens, output_tokens, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(userId, provider, model, usage?.inputTokens ?? 0, usage?.outputTokens ?? 0, Date.now());
+}
+
+function modelTotals(userId: string, since: number) {
+  return db.prepare(`
+    SELECT COUNT(*) AS requests, COALESCE(SUM(input_tokens), 0) AS inputTokens, COALESCE(SUM(output_tokens), 0) AS outputTokens
+    FROM model_usage WHERE user_id = ? AND created_at >= ?
+  `).get(userId, since) as { requests: number; inputTokens: number; outputTokens: number };
+}
+
+function toolCallCount(userId: string, since: number) {
+  const row = db.prepare(`
+    SELECT COUNT(*) AS calls FROM audit_log
+    WHERE user_id = ? AND created_at >= datetime(?, 'unixepoch') AND ${COUNTED_TOOL_CALLS}
+  `).get(userId, Math.floor(since / 1000)) as { calls: number };
+  return row.calls;
+}
+
+const formatCount = (n: number, noun: string) => `${n.toLocaleString("en-US")} ${noun}${n === 1 ? "" : "s"}`;
+
+function dailyLimitError(what: string, now: number) {
+  const resetsAt = startOfDay(now) + DAY_MS;
+  return new UsageLimitError(`You have reached today's limit of ${what}. It resets at midnight UTC.`, Math.ceil((resetsAt - now) / 1000));
+}
+
+/** Throw if the user may not make another model request right now */
+export function assertModelQuota(userId: string) {
+  const limits = usageLimits();
+  const now = Date.now();
+
+  if (limits.tokensPerDay || limits.modelRequestsPerDay) {
+    const today = modelTotals(userId, startOfDay(now));
+    if (limits.tokensPerDay && today.inputTokens + today.outputTokens >= limits.tokensPerDay) {
+      throw dailyLimitError(formatCount(limits.tokensPerDay, "model token"), now);
+    }
+    if (limits.modelRequestsPerDay && today.requests >= limits.modelRequestsPerDay) {
+      throw dailyLimitError(formatCount(limits.modelRequestsPerDay, "model request"), now);
+    }
+  }
+  if (limits.modelRequestsPerMinute && modelTotals(userId, now - MINUTE_MS).requests >= limits.modelRequestsPerMinute) {
+    throw new UsageLimitError(`You have reached the limit of ${formatCount(limits.modelRequestsPerMinute, "model request")} per minute.`, 60);
+  }
+}
+
+// Tool calls that passed the quota check but have no audit row yet. Counting them stops calls
+// started side by side from all passing the check against the same count.
+const pendingToolCalls = new Map<string, number>();
+
+/**
+ * Claim one tool call against the user's quota, throwing if none is left. Call the returned
+ * function once the call's audit row is written.
+ */
+export function reserveToolCall(userId: string) {
+  const limits = usageLimits();
+  const now = Date.now();
+  const pending = pendingToolCalls.get(userId) ?? 0;
+
+  if (limits.toolCallsPerDay && toolCallCount(userId, startOfDay(now)) + pending >= limits.toolCallsPerDay) {
+    throw dailyLimitError(formatCount(limits.toolCallsPerDay, "tool call"), now);
+  }
+  if (limits.toolCallsPerMinute && toolCallCount(userId, now - MINUTE_MS) + pending >= limits.toolCallsPerMinute) {
+    throw new UsageLimitError(`You have reached the limit of ${formatCount(limits.toolCallsPerMinute, "tool call")} per minute.`, 60);
+  }
+
+  pendingToolCalls.set(userId, pending + 1);
+  return () => {
+    const left = (pendingToolCalls.get(userId) ?? 1) - 1;
+    if (left > 0) pendingToolCalls.set(userId, left);
+    else pendingToolCalls.delete(userId);
+  };
+}
+
+export function getUsage(userId: string): UsageSummary {
+  const now = Date.now();
+  const since = startOfDay(now);
+  const today = modelTotals(userId, since);
+
+  const models = db.prepare(`
+    SELECT provider, COUNT(*) AS requests, SUM(input_tokens) AS inputTokens, SUM(output_tokens) AS outputTokens
+    FROM model_usage WHERE user_id = ? AND created_at >= ?
+    GROUP BY provider ORDER BY provider
+  `).all(userId, since) as Omit<ProviderUsage, "kind">[];
+  const tools = db.prepare(`
+    SELECT COALESCE(provider, 'built-in') AS provider, COUNT(*) AS requests FROM audit_log
+    WHERE user_id = ? AND created_at >= datetime(?, 'unixepoch') AND ${COUNTED_TOOL_CALLS}
+    GROUP BY provider ORDER BY provider
+  `).all(userId, Math.floor(since / 1000)) as { provider: string; requests: number }[];
+
+  return {
+    day: {
+      since,
+      resetsAt: since + DAY_MS,
+      modelRequests: today.requests,
+      inputTokens: today.inputTokens,
+      outputTokens: today.outputTokens,
+      toolCalls: toolCallCount(userId, since),
+    },
+    minute: {
+      modelRequests: modelTotals(userId, now - MINUTE_MS).requests,
+      toolCalls: toolCallCount(userId, now - MINUTE_MS),
+    },
+    limits: usageLimits(),
+    providers: [
+      ...models.map((row): ProviderUsage => ({ ...row, kind: "model" })),
+      ...tools.map((row): ProviderUsage => ({ ...row, kind: "tool", inputTokens: 0, outputTokens: 0 })),
+    ],
+  };
+}
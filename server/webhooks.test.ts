@@ -0,0 +1,20 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { renderTemplate } from "./webhooks";
+
+const payload = { action: "opened", issue: { title: "Crash on save", number: 7, labels: ["bug"] } };
+
+test("placeholders are filled from the payload, the event name and the whole body", () => {
+  assert.equal(
+    renderTemplate("{{event}}: #{{issue.number}} {{ issue.title }} {{issue.labels}} {{issue.missing}}", "issues.opened", payload),
+    'issues.opened: #7 Crash on save ["bug"] '
+  );
+  assert.equal(renderTemplate("{{payload.action}}", "issues.opened", payload), "opened");
+});
+
+test("placeholders never reach inherited properties", () => {
+  const template = "[{{constructor}}][{{payload.__proto__}}][{{issue.title.toString}}][{{issue.constructor.name}}][{{toString}}]";
+  assert.equal(renderTemplate(template, "issues.opened", payload), "[][][][][]");
+  // A payload's own "__proto__" field is still just a field
+  assert.equal(renderTemplate("{{payload.__proto__}}", "push", JSON.parse('{"__proto__": "own"}')), "own");
+});
@@ -0,0 +1,313 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import { db } from "./db";
+import { decryptToken, encryptToken } from "./tokenCrypto";
+import { failInterruptedRuns, parseAllowedTools, recordOutcome, RunConfigError, RunStatus, runTitle, startBackgroundRun } from "./backgroundRuns";
+
+export class WebhookError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "WebhookError";
+  }
+}
+
+/** How a sender signs its deliveries and names its events */
+interface WebhookSource {
+  verify(secret: string, body: Buffer, headers: IncomingHttpHeaders): boolean;
+  /** Event name, with the payload's action when there is one, e.g. "issues.opened" */
+  event(headers: IncomingHttpHeaders, payload: any): string;
+  deliveryId(headers: IncomingHttpHeaders): string | null;
+}
+
+function header(headers: IncomingHttpHeaders, name: string) {
+  const value = headers[name];
+  return (Array.isArray(value) ? value[0] : value) || null;
+}
+
+function hmacMatches(secret: string, body: Buffer, signature: string | null, prefix: string) {
+  if (!signature?.startsWith(prefix)) return false;
+  const expected = Buffer.from(createHmac("sha256", secret).update(body).digest("hex"));
+  const actual = Buffer.from(signature.slice(prefix.length).toLowerCase());
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+const webhookSources: Record<string, WebhookSource> = {
+  github: {
+    verify: (secret, body, headers) => hmacMatches(secret, body, header(headers, "x-hub-signature-256"), "sha256="),
+    event(headers, payload) {
+      const event = header(headers, "x-github-event") || "unknown";
+      return typeof payload?.action === "string" ? `${event}.${payload.action}` : event;
+    },
+    deliveryId: (headers) => header(headers, "x-github-delivery"),
+  },
+};
+
+export interface Webhook {
+  id: string;
+  name: string;
+  source: string;
+  /** Prompt sent to the agent; {{path.to.field}} is replaced with that field of the payload */
+  prompt_template: string;
+  /** Events that trigger a run, either "issues" or "issues.opened"; empty means all of them */
+  events: string[];
+  allowed_tools: string[];
+  enabled: boolean;
+  created_at: string;
+  url: string;
+}
+
+export interface WebhookRun {
+  id: string;
+  webhook_id: string;
+  webhook_name: string;
+  conversation_id: string | null;
+  event: string;
+  delivery_id: string | null;
+  status: RunStatus;
+  output: string | null;
+  error: string | null;
+  started_at: number;
+  finished_at: number | null;
+}
+
+export interface WebhookInput {
+  name?: unknown;
+  source?: unknown;
+  secret?: unknown;
+  prompt_template?: unknown;
+  events?: unknown;
+  allowed_tools?: unknown;
+  enabled?: unknown;
+}
+
+const NAME_LENGTH = 100;
+const TEMPLATE_LENGTH = 10_000;
+const MIN_SECRET_LENGTH = 16;
+// Payload text is written by whoever triggers the event, so each field is capped
+const MAX_FIELD_CHARS = 4_000;
+const MAX_PROMPT_CHARS = 20_000;
+const MAX_RUNS = 200;
+
+function hookUrl(id: string) {
+  const path = `/api/webhooks/${id}`;
+  return process.env.APP_URL ? new URL(path, process.env.APP_URL).href : path;
+}
+
+function toWebhook(row: any): Webhook {
+  return {
+    id: row.id,
+    name: row.name,
+    source: row.source,
+    prompt_template: row.prompt_template,
+    events: row.events ? JSON.parse(row.events) : [],
+    allowed_tools: row.allowed_tools ? JSON.parse(row.allowed_tools) : [],
+    enabled: !!row.enabled,
+    created_at: row.created_at,
+    url: hookUrl(row.id),
+  };
+}
+
+function text(value: unknown, field: string, maxLength: number) {
+  if (typeof value !== "string" || !value.trim()) throw new WebhookError(`${field} is required`);
+  if (value.length > maxLength) throw new WebhookError(`${field} must be at most ${maxLength} characters`);
+  return value.trim();
+}
+
+function sourceName(value: unknown) {
+  const name = value === undefined ? "github" : value;
+  if (typeof name !== "string" || !webhookSources[name]) {
+    throw new WebhookError(`source must be one of: ${Object.keys(webhookSources).join(", ")}`);
+  }
+  return name;
+}
+
+function secretValue(value: unknown) {
+  if (value === undefined || value === null || value === "") return randomBytes(32).toString("hex");
+  if (typeof value !== "string" || value.length < MIN_SECRET_LENGTH) {
+    throw new WebhookError(`secret must be at least ${MIN_SECRET_LENGTH} characters`);
+  }
+  return value;
+}
+
+function eventList(value: unknown) {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((event) => typeof event !== "string" || !event.trim())) {
+    throw new WebhookError("events must be a list of event names");
+  }
+  return [...new Set(value.map((event: string) => event.trim()))];
+}
+
+function allowedTools(value: unknown) {
+  try {
+    return parseAllowedTools(value);
+  } catch (error) {
+    if (error instanceof RunConfigError) throw new WebhookError(error.message);
+    throw error;
+  }
+}
+
+export function listWebhooks(userId: string) {
+  const rows = db.prepare("SELECT * FROM webhooks WHERE user_id = ? ORDER BY created_at").all(userId);
+  return rows.map(toWebhook);
+}
+
+export function getWebhook(userId: string, id: string) {
+  const row = db.prepare("SELECT * FROM webhooks WHERE id = ? AND user_id = ?").get(id, userId);
+  return row ? toWebhook(row) : undefined;
+}
+
+function requireWebhook(userId: string, id: string) {
+  const hook = getWebhook(userId, id);
+  if (!hook) throw new WebhookError("Webhook not found", 404);
+  return hook;
+}
+
+/** The secret is only ever returned here and from rotateWebhookSecret */
+export function createWebhook(userId: string, input: WebhookInput) {
+  const name = text(input.name, "name", NAME_LENGTH);
+  const source = sourceName(input.source);
+  const template = text(input.prompt_template, "prompt_template", TEMPLATE_LENGTH);
+  const events = eventList(input.events);
+  const tools = allowedTools(input.allowed_tools);
+  const secret = secretValue(input.secret);
+
+  const id = randomUUID();
+  db.prepare(`
+    INSERT INTO webhooks (id, user_id, name, source, secret, prompt_template, events, allowed_tools)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(id, userId, name, source, encryptToken(secret), template, JSON.stringify(events), JSON.stringify(tools));
+  return { ...getWebhook(userId, id)!, secret };
+}
+
+export function updateWebhook(userId: string, id: string, input: WebhookInput) {
+  const hook = requireWebhook(userId, id);
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") throw new WebhookError("enabled must be a boolean");
+
+  db.prepare(`
+    UPDATE webhooks SET name = ?, prompt_template = ?, events = ?, allowed_tools = ?, enabled = ?
+    WHERE id = ? AND user_id = ?
+  `).run(
+    input.name === undefined ? hook.name : text(input.name, "name", NAME_LENGTH),
+    input.prompt_template === undefined ? hook.prompt_template : text(input.prompt_template, "prompt_template", TEMPLATE_LENGTH),
+    JSON.stringify(input.events === undefined ? hook.events : eventList(input.events)),
+    JSON.stringify(input.allowed_tools === undefined ? hook.allowed_tools : allowedTools(input.allowed_tools)),
+    (input.enabled === undefined ? hook.enabled : input.enabled) ? 1 : 0,
+    id,
+    userId
+  );
+  return getWebhook(userId, id)!;
+}
+
+export function rotateWebhookSecret(userId: string, id: string, secret?: unknown) {
+  requireWebhook(userId, id);
+  const value = secretValue(secret);
+  db.prepare("UPDATE webhooks SET secret = ? WHERE id = ?").run(encryptToken(value), id);
+  return { ...getWebhook(userId, id)!, secret: value };
+}
+
+export function deleteWebhook(userId: string, id: string) {
+  return db.prepare("DELETE FROM webhooks WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+}
+
+export function listWebhookRuns(userId: string, webhookId?: string, limit = 50) {
+  const params: unknown[] = [userId];
+  let where = "w.user_id = ?";
+  if (webhookId) {
+    where += " AND r.webhook_id = ?";
+    params.push(webhookId);
+  }
+  params.push(Math.min(Math.max(limit, 1), MAX_RUNS));
+
+  return db.prepare(`
+    SELECT r.*, w.name AS webhook_name FROM webhook_runs r
+    JOIN webhooks w ON w.id = r.webhook_id
+    WHERE ${where}
+    ORDER BY r.started_at DESC LIMIT ?
+  `).all(...params) as WebhookRun[];
+}
+
+function getRun(id: string) {
+  return db.prepare(`
+    SELECT r.*, w.name AS webhook_name FROM webhook_runs r
+    JOIN webhooks w ON w.id = r.webhook_id WHERE r.id = ?
+  `).get(id) as WebhookRun;
+}
+
+// Only the payload's own fields, so names like "constructor" or "__proto__" reach nothing inherited
+function lookup(value: unknown, path: string) {
+  return path.split(".").reduce<any>(
+    (current, key) => (current !== null && typeof current === "object" && Object.hasOwn(current, key) ? current[key] : undefined),
+    value
+  );
+}
+
+/** Fill {{path}} placeholders from the payload; {{event}} is the event name and {{payload}} the whole body */
+export function renderTemplate(template: string, event: string, payload: unknown) {
+  const context = { ...(typeof payload === "object" && payload ? payload : {}), event, payload };
+  const rendered = template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, path: string) => {
+    const value = lookup(context, path);
+    if (value === undefined || value === null) return "";
+    // JSON.stringify gives undefined for values JSON cannot hold, such as functions
+    const text = typeof value === "string" ? value : JSON.stringify(value) ?? "";
+    return text.length > MAX_FIELD_CHARS ? `${text.slice(0, MAX_FIELD_CHARS)}… (truncated)` : text;
+  });
+  return rendered.slice(0, MAX_PROMPT_CHARS);
+}
+
+function eventMatches(events: string[], event: string) {
+  if (!events.length) return true;
+  const [base] = event.split(".");
+  return events.includes(event) || events.includes(base);
+}
+
+/**
+ * Handle a delivery to /api/webhooks/:id. The body must be the exact bytes that were signed.
+ * Runs happen in the background so senders with short timeouts get an answer straight away.
+ */
+export function receiveWebhook(id: string, headers: IncomingHttpHeaders, body: Buffer) {
+  const row = db.prepare("SELECT * FROM webhooks WHERE id = ?").get(id) as any;
+  // Unknown and disabled hooks look the same to the sender
+  if (!row || !row.enabled) throw new WebhookError("Webhook not found", 404);
+
+  const source = webhookSources[row.source];
+  if (!source.verify(decryptToken(row.secret), body, headers)) throw new WebhookError("Invalid signature", 401);
+
+  let payload: any;
+  try {
+    payload = JSON.parse(body.toString("utf8"));
+  } catch {
+    throw new WebhookError("Payload must be JSON");
+  }
+
+  const event = source.event(headers, payload);
+  if (event === "ping") return { status: 200, body: { ok: true } };
+
+  const hook = toWebhook(row);
+  if (!eventMatches(hook.events, event)) return { status: 202, body: { skipped: true, event } };
+
+  // Senders retry failed deliveries with the same id; only the first one runs
+  const deliveryId = source.deliveryId(headers);
+  if (deliveryId) {
+    const existing = db.prepare("SELECT id FROM webhook_runs WHERE webhook_id = ? AND delivery_id = ?").get(hook.id, deliveryId) as any;
+    if (existing) return { status: 200, body: { duplicate: true, run: getRun(existing.id) } };
+  }
+
+  const startedAt = new Date();
+  const prompt = renderTemplate(hook.prompt_template, event, payload);
+  const { conversationId, outcome } = startBackgroundRun(row.user_id, runTitle(`${hook.name}: ${event}`, startedAt), prompt, hook.allowed_tools);
+
+  const runId = randomUUID();
+  db.prepare(`
+    INSERT INTO webhook_runs (id, webhook_id, conversation_id, event, delivery_id, status, started_at)
+    VALUES (?, ?, ?, ?, ?, 'running', ?)
+  `).run(runId, hook.id, conversationId, event, deliveryId, startedAt.getTime());
+
+  void recordOutcome("webhook_runs", runId, outcome);
+
+  return { status: 202, body: { run: getRun(runId) } };
+}
+
+export function recoverWebhookRuns() {
+  const interrupted = failInterruptedRuns("webhook_runs");
+  if (interrupted) console.log(`Marked ${interrupted} interrupted webhook run(s) as failed.`);
+}
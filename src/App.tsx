@@ -22,33 +22,170 @@ import {
   Link2,
   CheckCircle2,
   XCircle,
-  LogOut
+  LogOut,
+  Plus,
+  Pencil,
+  Trash2,
+  MessageSquare,
+  Activity,
+  Download,
+  RefreshCw,
+  Brain,
+  Wrench,
+  ChevronRight,
+  ChevronDown,
+  Copy,
+  Check,
+  ListTree,
+  CalendarClock,
+  Play,
+  Pause,
+  BookMarked,
+  Upload,
+  Square
 } from 'lucide-react';
 import Markdown from 'react-markdown';
-import { consultAgent, AgentResponse } from './services/geminiService';
+import { consultAgent, answerApproval, AgentEvent, AgentStep } from './services/agentService';
+import {
+  Conversation,
+  StoredMessage,
+  listConversations,
+  renameConversation,
+  deleteConversation,
+  getConversationMessages,
+} from './services/conversationService';
+import { User, AuthConfig, getCurrentUser, getAuthConfig, login, register, logout } from './services/authService';
+import { AuditEntry, AuditFilters, listAuditEntries, auditExportUrl } from './services/auditService';
+import {
+  ScheduledTask,
+  ScheduledRun,
+  TaskInput,
+  listScheduledTasks,
+  createScheduledTask,
+  updateScheduledTask,
+  deleteScheduledTask,
+  setScheduledTaskPaused,
+  runScheduledTask,
+  listScheduledRuns,
+} from './services/scheduleService';
+import { ToolInfo, listTools } from './services/toolService';
+import {
+  PromptTemplate,
+  TemplateInput,
+  listTemplates,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  importTemplates,
+  templateExportUrl,
+  parseCommand,
+  renderTemplate,
+  templateUsage,
+} from './services/templateService';
+import { UsageSummary, getUsage } from './services/usageService';
+import { Memory, listMemories, createMemory, updateMemory, deleteMemory, clearMemories } from './services/memoryService';
+import { AgentProfile, ProfileInput, listProfiles, createProfile, updateProfile, deleteProfile } from './services/profileService';
+
+interface PendingApproval {
+  id: string;
+  args: Record<string, unknown>;
+  status: 'pending' | 'submitting' | 'approved' | 'rejected';
+  edited?: boolean;
+}
+
+interface ToolCallStatus {
+  id: string;
+  name: string;
+  status: 'running' | 'success' | 'error';
+  error?: string;
+  /** Why the call failed, e.g. rate_limited or rejected */
+  code?: string;
+  approval?: PendingApproval;
+}
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   sources?: { uri: string; title: string }[];
+  toolCalls?: ToolCallStatus[];
+  steps?: AgentStep[];
+  streaming?: boolean;
   timestamp: Date;
 }
 
+interface ProviderInfo {
+  id: string;
+  label: string;
+  description: string;
+  icon: string;
+  configured: boolean;
+  refresh: boolean;
+}
+
+const providerIcon = (icon: string) => {
+  switch (icon) {
+    case 'github': return <Github size={16} />;
+    case 'mail': return <Mail size={16} />;
+    case 'notion': return <FileText size={16} />;
+    default: return <Link2 size={16} />;
+  }
+};
+
 interface Connection {
   id: string;
   provider: string;
+  account: string;
+  status: 'active' | 'needs_reauth';
   created_at: string;
 }
 
-declare global {
-  interface Window {
-    aistudio?: {
-      hasSelectedApiKey: () => Promise<boolean>;
-      openSelectKey: () => Promise<void>;
+// SQLite CURRENT_TIMESTAMP values are UTC without a zone designator
+const parseTimestamp = (value: string) => new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+
+// Summarize what actually happened to a message's tool calls for its badge
+const toolOutcome = (calls: ToolCallStatus[]) => {
+  const failed = calls.filter(c => c.status === 'error' && c.code !== 'rejected' && c.code !== 'cancelled');
+  const rejected = calls.filter(c => c.code === 'rejected');
+  if (failed.length) {
+    const rateLimited = failed.every(c => c.code === 'rate_limited');
+    const overQuota = failed.every(c => c.code === 'quota_exceeded');
+    return {
+      verified: false,
+      label: rateLimited ? 'Rate limited' : overQuota ? 'Usage limit reached' : `${failed.length} of ${calls.length} actions failed`,
+      className: 'text-red-500/70',
     };
   }
-}
+  if (rejected.length === calls.length) return { verified: false, label: 'Declined by you', className: 'text-white/40' };
+  if (calls.some(c => c.code === 'cancelled')) return { verified: false, label: 'Stopped before finishing', className: 'text-white/40' };
+  return { verified: true, label: 'Execution Verified', className: 'text-emerald-500/60' };
+};
+
+// Commands the input bar handles itself; anything else after a slash is one of the user's templates
+const builtinCommands = [
+  { name: 'clear', usage: '/clear', description: 'Start a new conversation' },
+  { name: 'connect', usage: '/connect <app>', description: 'Connect an app, e.g. /connect github' },
+  { name: 'tools', usage: '/tools', description: 'List the tools the agent can use' },
+  { name: 'templates', usage: '/templates', description: 'Manage your prompt templates' },
+  { name: 'help', usage: '/help', description: 'Show the available commands' },
+];
+
+const exampleTasks = [
+  "List my recent GitHub repositories",
+  "Summarize my latest emails from today",
+  "Create a new issue in the nexus-agent repo",
+  "Check my calendar for upcoming meetings"
+];
+
+const toMessage = (stored: StoredMessage): Message => ({
+  id: stored.id,
+  role: stored.role,
+  content: stored.content,
+  sources: stored.sources,
+  toolCalls: stored.toolCalls,
+  steps: stored.steps,
+  timestamp: parseTimestamp(stored.created_at),
+});
 
 export default function App() {
   const [input, setInput] = useState('');
@@ -56,16 +193,52 @@ export default function App() {
   const [isThinking, setIsThinking] = useState(false);
   const [showConnectors, setShowConnectors] = useState(false);
   const [connections, setConnections] = useState<Connection[]>([]);
-  const [hasApiKey, setHasApiKey] = useState(true);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showActivity, setShowActivity] = useState(false);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showMemory, setShowMemory] = useState(false);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [profiles, setProfiles] = useState<AgentProfile[]>([]);
+  // The profile new messages run with; null for the default agent
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [commandIndex, setCommandIndex] = useState(0);
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Aborting closes the chat stream, which stops the run on the server
+  const runAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    checkApiKey();
+    getCurrentUser()
+      .then(setUser)
+      .catch(err => console.error('Failed to load session:', err))
+      .finally(() => setAuthChecked(true));
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchProviders();
     fetchConnections();
-    
+    fetchConversations();
+    fetchTemplates();
+    fetchProfiles();
+    fetchUsage();
+    // Scheduled and webhook runs use quota too, so keep the meter current between chats
+    const timer = setInterval(fetchUsage, 60_000);
+    return () => clearInterval(timer);
+  }, [user]);
+
+  useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
-      const origin = event.origin;
-      if (!origin.endsWith('.run.app') && !origin.includes('localhost')) return;
+      // The OAuth popup is served by our own server, so only trust messages from this origin
+      if (event.origin !== window.location.origin) return;
       
       if (event.data?.type === 'OAUTH_AUTH_SUCCESS') {
         fetchConnections();
@@ -84,34 +257,105 @@ export default function App() {
     return () => window.removeEventListener('message', handleMessage);
   }, []);
 
-  const checkApiKey = async () => {
-    if (window.aistudio?.hasSelectedApiKey) {
-      const selected = await window.aistudio.hasSelectedApiKey();
-      setHasApiKey(selected);
+  const fetchConnections = async () => {
+    try {
+      const res = await fetch('/api/connections');
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+      setConnections(await res.json());
+    } catch (err) {
+      console.error('Failed to fetch connections:', err);
     }
   };
 
-  const handleSelectKey = async () => {
-    if (window.aistudio?.openSelectKey) {
-      await window.aistudio.openSelectKey();
-      setHasApiKey(true);
+  const fetchProviders = async () => {
+    try {
+      const res = await fetch('/api/providers');
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+      setProviders(await res.json());
+    } catch (err) {
+      console.error('Failed to fetch providers:', err);
     }
   };
 
-  const fetchConnections = async () => {
+  const fetchConversations = async () => {
     try {
-      const res = await fetch('/api/connections');
-      const data = await res.json();
-      setConnections(data);
+      setConversations(await listConversations());
     } catch (err) {
-      console.error('Failed to fetch connections:', err);
+      console.error('Failed to fetch conversations:', err);
+    }
+  };
+
+  const fetchTemplates = async () => {
+    try {
+      setTemplates(await listTemplates());
+    } catch (err) {
+      console.error('Failed to fetch templates:', err);
+    }
+  };
+
+  const fetchProfiles = async () => {
+    try {
+      const list = await listProfiles();
+      setProfiles(list);
+      setProfileId(prev => prev && list.some(p => p.id === prev) ? prev : null);
+    } catch (err) {
+      console.error('Failed to fetch profiles:', err);
+    }
+  };
+
+  const fetchUsage = async () => {
+    try {
+      setUsage(await getUsage());
+    } catch (err) {
+      console.error('Failed to fetch usage:', err);
+    }
+  };
+
+  const openConversation = async (id: string) => {
+    if (isThinking) return;
+    try {
+      const stored = await getConversationMessages(id);
+      setActiveConversationId(id);
+      setMessages(stored.map(toMessage));
+    } catch (err) {
+      console.error(`Failed to load conversation ${id}:`, err);
+    }
+  };
+
+  const startNewConversation = () => {
+    if (isThinking) return;
+    setActiveConversationId(null);
+    setMessages([]);
+  };
+
+  const handleRenameConversation = async (conversation: Conversation) => {
+    const title = window.prompt('Rename conversation', conversation.title);
+    if (!title?.trim()) return;
+    try {
+      await renameConversation(conversation.id, title.trim());
+      fetchConversations();
+    } catch (err) {
+      console.error(`Failed to rename conversation ${conversation.id}:`, err);
+    }
+  };
+
+  const handleDeleteConversation = async (conversation: Conversation) => {
+    if (isThinking && conversation.id === activeConversationId) return;
+    if (!window.confirm(`Delete "${conversation.title}"?`)) return;
+    try {
+      await deleteConversation(conversation.id);
+      if (conversation.id === activeConversationId) startNewConversation();
+      fetchConversations();
+    } catch (err) {
+      console.error(`Failed to delete conversation ${conversation.id}:`, err);
     }
   };
 
   const connectProvider = async (provider: string) => {
     try {
       const res = await fetch(`/api/auth/${provider}/url`);
-      const { url } = await res.json();
+      const { url, error } = await res.json();
+      if (!res.ok) throw new Error(error);
       window.open(url, 'oauth_popup', 'width=600,height=700');
     } catch (err) {
       console.error(`Failed to connect ${provider}:`, err);
@@ -133,14 +377,99 @@ export default function App() {
     }
   }, [messages, isThinking]);
 
+  // Messages shown in the chat without going to the agent, e.g. command output
+  const addLocalMessage = (content: string) => {
+    setMessages(prev => [...prev, { id: Math.random().toString(36).substring(7), role: 'assistant', content, timestamp: new Date() }]);
+  };
+
+  const describeTools = async () => {
+    const tools = await listTools();
+    const groups = new Map<string, ToolInfo[]>();
+    for (const tool of tools) {
+      const key = tool.provider || 'Built-in';
+      groups.set(key, [...(groups.get(key) || []), tool]);
+    }
+    return [...groups].map(([provider, list]) => {
+      const info = providers.find(p => p.id === provider);
+      const status = info ? (accountsFor(provider).length ? 'connected' : `not connected, use /connect ${provider}`) : '';
+      const lines = list.map(t => `- \`${t.name}\`${t.mutating ? ' (needs approval)' : ''}: ${t.description}`);
+      return [`**${info?.label || provider}**${status ? ` (${status})` : ''}`, ...lines].join('\n');
+    }).join('\n\n');
+  };
+
+  const runCommand = async (text: string) => {
+    const command = parseCommand(text);
+    if (!command) {
+      setCommandError('Commands look like /name followed by arguments. Type /help to see them.');
+      return;
+    }
+
+    const done = () => {
+      setInput('');
+      setCommandError(null);
+    };
+    switch (command.name) {
+      case 'clear':
+        startNewConversation();
+        return done();
+      case 'connect': {
+        const target = (command.positional[0] || command.named.app || '').toLowerCase();
+        const provider = providers.find(p => p.id === target || p.label.toLowerCase() === target);
+        if (!provider) {
+          setCommandError(`Usage: /connect ${providers.map(p => p.id).join(' | ')}`);
+          return;
+        }
+        connectProvider(provider.id);
+        return done();
+      }
+      case 'tools':
+        try {
+          addLocalMessage(await describeTools());
+          return done();
+        } catch (err: any) {
+          setCommandError(`Could not load tools: ${err.message}`);
+          return;
+        }
+      case 'templates':
+        setShowTemplates(true);
+        return done();
+      case 'help':
+        addLocalMessage([
+          '**Commands**',
+          ...builtinCommands.map(c => `- \`${c.usage}\`: ${c.description}`),
+          '',
+          templates.length ? '**Your templates**' : 'You have no templates yet. Create some with `/templates`.',
+          ...templates.map(t => `- \`${templateUsage(t)}\`${t.description ? `: ${t.description}` : ''}`),
+        ].join('\n'));
+        return done();
+    }
+
+    const template = templates.find(t => t.name === command.name);
+    if (!template) {
+      setCommandError(`Unknown command /${command.name}. Type /help to see what's available.`);
+      return;
+    }
+    const result = renderTemplate(template, command);
+    if (result.missing) {
+      setCommandError(`Missing ${result.missing.join(', ')}. Usage: ${templateUsage(template)}`);
+      return;
+    }
+    setCommandError(null);
+    sendPrompt(result.prompt!);
+  };
+
   const handleSend = async (e?: React.FormEvent) => {
     e?.preventDefault();
     if (!input.trim() || isThinking) return;
+    if (input.trim().startsWith('/')) return runCommand(input);
+    sendPrompt(input);
+  };
 
+  const sendPrompt = async (content: string) => {
     const userMessage: Message = {
       id: Math.random().toString(36).substring(7),
       role: 'user',
-      content: input,
+      content,
       timestamp: new Date(),
     };
 
@@ -148,31 +477,167 @@ export default function App() {
     setInput('');
     setIsThinking(true);
 
+    const assistantId = Math.random().toString(36).substring(7);
+
+    // Insert the assistant message on the first streamed event, then update it in place
+    const updateAssistant = (update: (msg: Message) => Message) => {
+      setMessages(prev => {
+        const existing = prev.find(m => m.id === assistantId);
+        if (!existing) {
+          const created: Message = { id: assistantId, role: 'assistant', content: '', toolCalls: [], streaming: true, timestamp: new Date() };
+          return [...prev, update(created)];
+        }
+        return prev.map(m => m.id === assistantId ? update(m) : m);
+      });
+    };
+
+    const handleEvent = (event: AgentEvent) => {
+      switch (event.type) {
+        case 'conversation':
+          setActiveConversationId(event.id);
+          break;
+        case 'token':
+          updateAssistant(m => ({ ...m, content: m.content + event.text }));
+          break;
+        case 'tool_call':
+          updateAssistant(m => ({ ...m, toolCalls: [...(m.toolCalls || []), { id: event.id, name: event.name, status: 'running' }] }));
+          break;
+        case 'approval_required':
+          updateAssistant(m => ({
+            ...m,
+            toolCalls: (m.toolCalls || []).map(t => t.id === event.id ? { ...t, approval: { id: event.approvalId, args: event.args, status: 'pending' } } : t),
+          }));
+          break;
+        case 'approval_resolved':
+          updateAssistant(m => ({
+            ...m,
+            toolCalls: (m.toolCalls || []).map(t => t.id === event.id && t.approval
+              ? { ...t, approval: { ...t.approval, status: event.approved ? 'approved' : 'rejected', edited: event.edited } }
+              : t),
+          }));
+          break;
+        case 'tool_result':
+          updateAssistant(m => ({
+            ...m,
+            toolCalls: (m.toolCalls || []).map(t => t.id === event.id ? { ...t, status: event.error ? 'error' : 'success', error: event.error, code: event.code } : t),
+          }));
+          break;
+        case 'step':
+          updateAssistant(m => ({ ...m, steps: [...(m.steps || []), event.step] }));
+          break;
+        case 'sources':
+          updateAssistant(m => ({ ...m, sources: event.sources }));
+          break;
+        case 'done':
+          updateAssistant(m => ({ ...m, content: event.text, sources: event.sources, streaming: false }));
+          break;
+      }
+    };
+
+    const controller = new AbortController();
+    runAbortRef.current = controller;
     try {
-      const response = await consultAgent(input);
-      const assistantMessage: Message = {
-        id: Math.random().toString(36).substring(7),
-        role: 'assistant',
-        content: response.text,
-        sources: response.sources,
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, assistantMessage]);
+      await consultAgent(userMessage.content, handleEvent, { conversationId: activeConversationId, profileId, signal: controller.signal });
     } catch (error) {
+      if (controller.signal.aborted) {
+        // The server keeps the same partial reply and note; nothing after the stop reaches us
+        updateAssistant(m => ({
+          ...m,
+          content: `${m.content ? `${m.content}\n\n` : ''}**Stopped:** you cancelled this run.`,
+          toolCalls: (m.toolCalls || []).map(t => t.status === 'running'
+            ? { ...t, status: 'error', code: 'cancelled', error: 'Stopped', approval: t.approval && { ...t.approval, status: 'rejected' } }
+            : t),
+          streaming: false,
+        }));
+        return;
+      }
       console.error('Agent error:', error);
-      const errorMessage: Message = {
-        id: Math.random().toString(36).substring(7),
-        role: 'assistant',
-        content: "Error: Failed to connect to the brain. Please try again.",
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      updateAssistant(m => ({
+        ...m,
+        content: m.content ? `${m.content}\n\n**Error:** the agent stopped unexpectedly.` : "Error: Failed to connect to the brain. Please try again.",
+        streaming: false,
+      }));
     } finally {
+      runAbortRef.current = null;
       setIsThinking(false);
+      fetchConversations();
+      // Tool calls may have flagged a connection for re-authorization
+      fetchConnections();
+      fetchUsage();
+    }
+  };
+
+  const handleApproval = async (
+    messageId: string,
+    call: ToolCallStatus,
+    decision: { approved: boolean; args?: Record<string, unknown>; alwaysAllow?: boolean }
+  ) => {
+    if (!call.approval) return;
+    const setApprovalStatus = (status: PendingApproval['status']) => setMessages(prev => prev.map(m => m.id === messageId
+      ? { ...m, toolCalls: (m.toolCalls || []).map(t => t.id === call.id && t.approval ? { ...t, approval: { ...t.approval, status } } : t) }
+      : m));
+
+    setApprovalStatus('submitting');
+    try {
+      await answerApproval(call.approval.id, decision);
+    } catch (err) {
+      console.error(`Failed to answer approval for ${call.name}:`, err);
+      setApprovalStatus('pending');
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch (err) {
+      console.error('Failed to sign out:', err);
+    }
+    setUser(null);
+    setMessages([]);
+    setConversations([]);
+    setConnections([]);
+    setActiveConversationId(null);
+  };
+
+  const accountsFor = (provider: string) => connections.filter(c => c.provider === provider);
+
+  // While the first word is being typed after a slash, offer matching commands and templates
+  const commandPrefix = input.match(/^\/([\w-]*)$/)?.[1]?.toLowerCase();
+  const commandSuggestions: CommandSuggestion[] = commandPrefix === undefined ? [] : [
+    ...builtinCommands.map(c => ({ ...c, takesArgs: c.name === 'connect' })),
+    ...templates.map(t => ({ name: t.name, usage: templateUsage(t), description: t.description, takesArgs: t.variables.length > 0 })),
+  ].filter(c => c.name.startsWith(commandPrefix));
+  const typedTemplate = templates.find(t => t.name === input.match(/^\/([\w-]+)\s/)?.[1]?.toLowerCase());
+  const commandHint = typedTemplate ? templateUsage(typedTemplate) : null;
+
+  const completeCommand = (suggestion: CommandSuggestion) => {
+    setInput(`/${suggestion.name}${suggestion.takesArgs ? ' ' : ''}`);
+    setCommandIndex(0);
+  };
+
+  const handleCommandKeys = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!commandSuggestions.length) return;
+    const selected = commandSuggestions[Math.min(commandIndex, commandSuggestions.length - 1)];
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setCommandIndex((commandIndex + step + commandSuggestions.length) % commandSuggestions.length);
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && input !== `/${selected.name}`)) {
+      // Enter runs a fully typed command; otherwise it completes the highlighted one like Tab
+      e.preventDefault();
+      completeCommand(selected);
     }
   };
 
-  const isConnected = (provider: string) => connections.some(c => c.provider === provider);
+  if (!authChecked) {
+    return (
+      <div className="min-h-screen bg-[#050505] text-[#E4E3E0] font-mono flex items-center justify-center">
+        <Loader2 size={20} className="animate-spin text-[#F27D26]" />
+      </div>
+    );
+  }
+
+  if (!user) return <AuthScreen onAuthenticated={setUser} />;
 
   return (
     <div className="min-h-screen bg-[#050505] text-[#E4E3E0] font-mono selection:bg-[#F27D26] selection:text-black flex flex-col">
@@ -188,15 +653,60 @@ export default function App() {
           </div>
         </div>
         <div className="flex items-center gap-4">
-          {!hasApiKey && (
-            <button 
-              onClick={handleSelectKey}
-              className="flex items-center gap-2 px-3 py-1.5 border border-red-500/50 bg-red-500/10 text-red-500 hover:bg-red-500 hover:text-white transition-all text-[10px] uppercase tracking-widest rounded-sm"
+          <div className="flex items-center border border-[#141414] rounded-sm text-[10px] uppercase tracking-widest">
+            <select
+              value={profileId || ''}
+              onChange={(e) => setProfileId(e.target.value || null)}
+              disabled={isThinking}
+              title="Agent profile for new messages"
+              className="bg-transparent text-white/60 hover:text-white px-2 py-1.5 uppercase tracking-widest max-w-[160px] focus:outline-none cursor-pointer disabled:cursor-not-allowed"
             >
-              <ShieldAlert size={14} />
-              Set API Key
+              <option value="" className="bg-[#0A0A0A]">Default profile</option>
+              {profiles.map(p => <option key={p.id} value={p.id} className="bg-[#0A0A0A]">{p.name}</option>)}
+            </select>
+            <button
+              onClick={() => setShowProfiles(!showProfiles)}
+              className={`px-2 py-1.5 border-l border-[#141414] transition-all ${showProfiles ? 'bg-[#F27D26] text-black' : 'text-white/60 hover:text-white'}`}
+              title="Manage profiles"
+            >
+              <Settings size={14} />
             </button>
-          )}
+          </div>
+          <button 
+            onClick={() => setShowHistory(!showHistory)}
+            className={`flex items-center gap-2 px-3 py-1.5 border transition-all text-[10px] uppercase tracking-widest rounded-sm ${showHistory ? 'bg-[#F27D26] text-black border-[#F27D26]' : 'border-[#141414] hover:border-[#F27D26] text-white/60 hover:text-white'}`}
+          >
+            <History size={14} />
+            History
+          </button>
+          <button 
+            onClick={() => setShowActivity(!showActivity)}
+            className={`flex items-center gap-2 px-3 py-1.5 border transition-all text-[10px] uppercase tracking-widest rounded-sm ${showActivity ? 'bg-[#F27D26] text-black border-[#F27D26]' : 'border-[#141414] hover:border-[#F27D26] text-white/60 hover:text-white'}`}
+          >
+            <Activity size={14} />
+            Activity
+          </button>
+          <button 
+            onClick={() => setShowSchedules(!showSchedules)}
+            className={`flex items-center gap-2 px-3 py-1.5 border transition-all text-[10px] uppercase tracking-widest rounded-sm ${showSchedules ? 'bg-[#F27D26] text-black border-[#F27D26]' : 'border-[#141414] hover:border-[#F27D26] text-white/60 hover:text-white'}`}
+          >
+            <CalendarClock size={14} />
+            Schedules
+          </button>
+          <button 
+            onClick={() => setShowTemplates(!showTemplates)}
+            className={`flex items-center gap-2 px-3 py-1.5 border transition-all text-[10px] uppercase tracking-widest rounded-sm ${showTemplates ? 'bg-[#F27D26] text-black border-[#F27D26]' : 'border-[#141414] hover:border-[#F27D26] text-white/60 hover:text-white'}`}
+          >
+            <BookMarked size={14} />
+            Templates
+          </button>
+          <button 
+            onClick={() => setShowMemory(!showMemory)}
+            className={`flex items-center gap-2 px-3 py-1.5 border transition-all text-[10px] uppercase tracking-widest rounded-sm ${showMemory ? 'bg-[#F27D26] text-black border-[#F27D26]' : 'border-[#141414] hover:border-[#F27D26] text-white/60 hover:text-white'}`}
+          >
+            <Brain size={14} />
+            Memory
+          </button>
           <button 
             onClick={() => setShowConnectors(!showConnectors)}
             className={`flex items-center gap-2 px-3 py-1.5 border transition-all text-[10px] uppercase tracking-widest rounded-sm ${showConnectors ? 'bg-[#F27D26] text-black border-[#F27D26]' : 'border-[#141414] hover:border-[#F27D26] text-white/60 hover:text-white'}`}
@@ -209,16 +719,17 @@ export default function App() {
               </span>
             )}
           </button>
-          <div className="hidden sm:flex items-center gap-4 text-[10px] uppercase tracking-widest opacity-50 border-l border-[#141414] pl-4">
-            <div className="flex items-center gap-2">
-              <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
-              <span>Core Online</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <Zap size={12} className="text-[#F27D26]" />
-              <span>High Priority</span>
-            </div>
+          <div className="flex items-center gap-2 text-[10px] uppercase tracking-widest border-l border-[#141414] pl-4">
+            <span className="opacity-50 truncate max-w-[120px]" title={user.username}>{user.display_name}</span>
+            <button
+              onClick={handleLogout}
+              className="p-1 opacity-50 hover:opacity-100 hover:text-red-500 transition-all"
+              title="Sign out"
+            >
+              <LogOut size={14} />
+            </button>
           </div>
+          {usage && <UsageMeter usage={usage} />}
         </div>
       </header>
 
@@ -236,30 +747,18 @@ export default function App() {
                 <div>
                   <h3 className="text-[10px] uppercase tracking-[0.2em] text-[#F27D26] font-bold mb-4">Active Connectors</h3>
                   <div className="space-y-2">
-                    <ConnectorItem 
-                      icon={<Github size={16} />} 
-                      name="GitHub" 
-                      description="Repos, Issues, PRs"
-                      connected={isConnected('github')}
-                      onConnect={() => connectProvider('github')}
-                      onDisconnect={() => disconnectProvider('github')}
-                    />
-                    <ConnectorItem 
-                      icon={<Mail size={16} />} 
-                      name="Gmail" 
-                      description="Email & Calendar"
-                      connected={isConnected('google')}
-                      onConnect={() => connectProvider('google')}
-                      onDisconnect={() => disconnectProvider('google')}
-                    />
-                    <ConnectorItem 
-                      icon={<FileText size={16} />} 
-                      name="Notion" 
-                      description="Docs & Projects"
-                      connected={isConnected('notion')}
-                      onConnect={() => connectProvider('notion')}
-                      onDisconnect={() => disconnectProvider('notion')}
-                    />
+                    {providers.map((provider) => (
+                      <ConnectorItem 
+                        key={provider.id}
+                        icon={providerIcon(provider.icon)} 
+                        name={provider.label} 
+                        description={provider.description}
+                        accounts={accountsFor(provider.id)}
+                        onConnect={() => connectProvider(provider.id)}
+                        onDisconnect={disconnectProvider}
+                        disabled={!provider.configured}
+                      />
+                    ))}
                   </div>
                 </div>
 
@@ -277,6 +776,65 @@ export default function App() {
           )}
         </AnimatePresence>
 
+        {/* Sidebar Conversation History */}
+        <AnimatePresence>
+          {showHistory && (
+            <motion.aside
+              initial={{ x: -300, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              exit={{ x: -300, opacity: 0 }}
+              className="w-72 border-r border-[#141414] bg-[#0A0A0A] overflow-y-auto p-4 z-10 hidden md:block"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-[10px] uppercase tracking-[0.2em] text-[#F27D26] font-bold">Conversations</h3>
+                <button
+                  onClick={startNewConversation}
+                  disabled={isThinking}
+                  className="flex items-center gap-1 text-[9px] uppercase font-bold text-[#F27D26] hover:text-white transition-colors disabled:opacity-30"
+                >
+                  <Plus size={12} />
+                  New
+                </button>
+              </div>
+              <div className="space-y-1">
+                {conversations.length === 0 && (
+                  <p className="text-[10px] opacity-40 leading-relaxed">No conversations yet. Start a task to create one.</p>
+                )}
+                {conversations.map((conversation) => (
+                  <div
+                    key={conversation.id}
+                    className={`group/conv flex items-center gap-2 p-2 border rounded-sm cursor-pointer transition-all ${conversation.id === activeConversationId ? 'bg-[#F27D26]/5 border-[#F27D26]/30' : 'border-transparent hover:border-white/5 hover:bg-white/5'}`}
+                    onClick={() => openConversation(conversation.id)}
+                  >
+                    <MessageSquare size={12} className="shrink-0 opacity-40" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-[11px] truncate">{conversation.title}</p>
+                      <p className="text-[9px] opacity-30">{parseTimestamp(conversation.updated_at).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</p>
+                    </div>
+                    <div className="flex items-center gap-1 opacity-0 group-hover/conv:opacity-100 transition-opacity">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleRenameConversation(conversation); }}
+                        className="p-1 hover:text-[#F27D26] transition-colors"
+                        title="Rename"
+                      >
+                        <Pencil size={11} />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleDeleteConversation(conversation); }}
+                        disabled={isThinking && conversation.id === activeConversationId}
+                        className="p-1 hover:text-red-500 transition-colors disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:text-inherit"
+                        title={isThinking && conversation.id === activeConversationId ? "Stop the run before deleting this conversation" : "Delete"}
+                      >
+                        <Trash2 size={11} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </motion.aside>
+          )}
+        </AnimatePresence>
+
         {/* Main Terminal Area */}
         <main className="flex-1 overflow-y-auto relative">
           <div className="max-w-4xl mx-auto p-4 sm:p-8 pb-32">
@@ -301,12 +859,18 @@ export default function App() {
                     Connect your tools to enable Nexus to perform actions like searching repositories, reading emails, or updating project boards.
                   </p>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 pt-4">
-                    {[
-                      "List my recent GitHub repositories",
-                      "Summarize my latest emails from today",
-                      "Create a new issue in the nexus-agent repo",
-                      "Check my calendar for upcoming meetings"
-                    ].map((example) => (
+                    {templates.length > 0 ? templates.slice(0, 6).map((template) => (
+                      <button
+                        key={template.id}
+                        onClick={() => {
+                          setInput(template.variables.length ? `/${template.name} ` : `/${template.name}`);
+                        }}
+                        className="text-left p-3 border border-[#141414] hover:border-[#F27D26] hover:bg-[#F27D26]/5 transition-all text-[11px] tracking-wider group"
+                      >
+                        <span className="block font-mono text-[#F27D26] opacity-70 group-hover:opacity-100 transition-opacity">{templateUsage(template)}</span>
+                        {template.description && <span className="block mt-1 uppercase opacity-50 group-hover:opacity-100 transition-opacity">{template.description}</span>}
+                      </button>
+                    )) : exampleTasks.map((example) => (
                       <button
                         key={example}
                         onClick={() => {
@@ -318,6 +882,7 @@ export default function App() {
                       </button>
                     ))}
                   </div>
+                  <p className="text-[10px] opacity-30 uppercase tracking-widest">Type / for commands and templates</p>
                 </motion.div>
               )}
 
@@ -374,31 +939,66 @@ export default function App() {
                           />
                         )}
 
+                        {msg.toolCalls && msg.toolCalls.length > 0 && (
+                          <div className="mb-4 space-y-1.5 relative z-10">
+                            {msg.toolCalls.map((call) => (
+                              <div key={call.id} className="space-y-2">
+                                <div className="flex items-center gap-2 text-[10px] uppercase tracking-widest">
+                                  {call.status === 'running' && (call.approval && call.approval.status !== 'approved'
+                                    ? <ShieldAlert size={12} className="text-[#F27D26]" />
+                                    : <Loader2 size={12} className="animate-spin text-[#F27D26]" />)}
+                                  {call.status === 'success' && <CheckCircle2 size={12} className="text-emerald-500" />}
+                                  {call.status === 'error' && <XCircle size={12} className="text-red-500" />}
+                                  <span className={call.status === 'error' ? 'text-red-400' : 'opacity-60'}>{call.name}</span>
+                                  {call.approval?.edited && <span className="text-[#F27D26]/60">edited</span>}
+                                  {call.error && <span className="normal-case tracking-normal opacity-40 truncate">{call.error}</span>}
+                                </div>
+                                {call.approval && (call.approval.status === 'pending' || call.approval.status === 'submitting') && (
+                                  <ApprovalCard
+                                    toolName={call.name}
+                                    args={call.approval.args}
+                                    submitting={call.approval.status === 'submitting'}
+                                    onDecision={(decision) => handleApproval(msg.id, call, decision)}
+                                  />
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
                         <div className="markdown-body text-[15px] leading-relaxed prose prose-invert prose-sm max-w-none relative z-10">
                           <Markdown>{msg.content}</Markdown>
+                          {msg.streaming && <span className="inline-block w-2 h-4 bg-[#F27D26] animate-pulse align-middle" />}
                         </div>
 
-                        {msg.role === 'assistant' && (
-                          <motion.div 
-                            initial={{ opacity: 0, x: -10 }}
-                            animate={{ opacity: 1, x: 0 }}
-                            transition={{ delay: 0.3, duration: 0.5 }}
-                            className="mt-4 flex items-center gap-2 text-[10px] font-bold uppercase tracking-[0.2em] text-emerald-500/60"
-                          >
-                            <motion.div
-                              initial={{ scale: 0 }}
-                              animate={{ scale: 1 }}
-                              transition={{ 
-                                type: "spring",
-                                stiffness: 260,
-                                damping: 20,
-                                delay: 0.5 
-                              }}
+                        {msg.role === 'assistant' && !msg.streaming && msg.toolCalls && msg.toolCalls.length > 0 && (() => {
+                          const outcome = toolOutcome(msg.toolCalls);
+                          return (
+                            <motion.div 
+                              initial={{ opacity: 0, x: -10 }}
+                              animate={{ opacity: 1, x: 0 }}
+                              transition={{ delay: 0.3, duration: 0.5 }}
+                              className={`mt-4 flex items-center gap-2 text-[10px] font-bold uppercase tracking-[0.2em] ${outcome.className}`}
                             >
-                              <CheckCircle2 size={14} className="text-emerald-500" />
+                              <motion.div
+                                initial={{ scale: 0 }}
+                                animate={{ scale: 1 }}
+                                transition={{ 
+                                  type: "spring",
+                                  stiffness: 260,
+                                  damping: 20,
+                                  delay: 0.5 
+                                }}
+                              >
+                                {outcome.verified ? <CheckCircle2 size={14} className="text-emerald-500" /> : <XCircle size={14} />}
+                              </motion.div>
+                              <span>{outcome.label}</span>
                             </motion.div>
-                            <span>Execution Verified</span>
-                          </motion.div>
+                          );
+                        })()}
+
+                        {msg.role === 'assistant' && msg.steps && msg.steps.length > 0 && (
+                          <StepTimeline steps={msg.steps} />
                         )}
 
                         {msg.sources && msg.sources.length > 0 && (
@@ -429,7 +1029,7 @@ export default function App() {
                 ))}
               </AnimatePresence>
 
-              {isThinking && (
+              {isThinking && !messages.some(m => m.streaming) && (
                 <motion.div 
                   initial={{ opacity: 0, y: 5 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -467,25 +1067,48 @@ export default function App() {
                 onSubmit={handleSend}
                 className="relative group"
               >
+                <CommandMenu
+                  suggestions={commandSuggestions}
+                  selected={commandIndex}
+                  hint={commandError || commandHint}
+                  isError={!!commandError}
+                  onPick={completeCommand}
+                />
                 <div className="absolute inset-y-0 left-4 flex items-center pointer-events-none text-[#F27D26]">
                   <TerminalIcon size={18} />
                 </div>
                 <input
                   type="text"
                   value={input}
-                  onChange={(e) => setInput(e.target.value)}
+                  onChange={(e) => {
+                    setInput(e.target.value);
+                    setCommandIndex(0);
+                    setCommandError(null);
+                  }}
+                  onKeyDown={handleCommandKeys}
                   placeholder="START A TASK >"
                   className="w-full bg-[#0A0A0A] border border-[#141414] group-focus-within:border-[#F27D26] py-4 pl-12 pr-16 rounded-sm text-sm focus:outline-none transition-all placeholder:opacity-20"
                   disabled={isThinking}
                 />
-                <button
-                  type="submit"
-                  disabled={isThinking || !input.trim()}
-                  className="absolute right-2 top-2 bottom-2 px-4 bg-[#F27D26] text-black font-bold text-[10px] uppercase tracking-widest hover:bg-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-                >
-                  Run
-                  <ArrowRight size={14} />
-                </button>
+                {isThinking ? (
+                  <button
+                    type="button"
+                    onClick={() => runAbortRef.current?.abort()}
+                    className="absolute right-2 top-2 bottom-2 px-4 bg-white/10 text-white font-bold text-[10px] uppercase tracking-widest hover:bg-red-500 hover:text-black transition-colors flex items-center gap-2"
+                  >
+                    Stop
+                    <Square size={12} />
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!input.trim()}
+                    className="absolute right-2 top-2 bottom-2 px-4 bg-[#F27D26] text-black font-bold text-[10px] uppercase tracking-widest hover:bg-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    Run
+                    <ArrowRight size={14} />
+                  </button>
+                )}
               </form>
               <div className="mt-3 flex items-center justify-between text-[9px] uppercase tracking-[0.2em] opacity-30 px-2">
                 <div className="flex gap-4">
@@ -501,50 +1124,411 @@ export default function App() {
             </div>
           </div>
         </main>
+
+        {/* Sidebar Activity (tool-call audit log) */}
+        <AnimatePresence>
+          {showActivity && (
+            <motion.aside
+              initial={{ x: 300, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              exit={{ x: 300, opacity: 0 }}
+              className="w-96 border-l border-[#141414] bg-[#0A0A0A] overflow-y-auto p-4 z-10 hidden md:block"
+            >
+              <ActivityPanel providers={providers} busy={isThinking} />
+            </motion.aside>
+          )}
+        </AnimatePresence>
+
+        {/* Sidebar Schedules (prompts the agent runs on a cron schedule) */}
+        <AnimatePresence>
+          {showSchedules && (
+            <motion.aside
+              initial={{ x: 300, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              exit={{ x: 300, opacity: 0 }}
+              className="w-96 border-l border-[#141414] bg-[#0A0A0A] overflow-y-auto p-4 z-10 hidden md:block"
+            >
+              <SchedulesPanel onOpenConversation={openConversation} onRunsChanged={fetchConversations} />
+            </motion.aside>
+          )}
+        </AnimatePresence>
+
+        {/* Sidebar Templates (saved prompts run as slash commands) */}
+        <AnimatePresence>
+          {showTemplates && (
+            <motion.aside
+              initial={{ x: 300, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              exit={{ x: 300, opacity: 0 }}
+              className="w-96 border-l border-[#141414] bg-[#0A0A0A] overflow-y-auto p-4 z-10 hidden md:block"
+            >
+              <TemplatesPanel templates={templates} onChange={fetchTemplates} />
+            </motion.aside>
+          )}
+        </AnimatePresence>
+
+        {/* Sidebar Memory (facts the agent keeps about the user between conversations) */}
+        <AnimatePresence>
+          {showMemory && (
+            <motion.aside
+              initial={{ x: 300, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              exit={{ x: 300, opacity: 0 }}
+              className="w-96 border-l border-[#141414] bg-[#0A0A0A] overflow-y-auto p-4 z-10 hidden md:block"
+            >
+              <MemoryPanel busy={isThinking} />
+            </motion.aside>
+          )}
+        </AnimatePresence>
+
+        {/* Sidebar Profiles (system prompt, model and tools the agent runs with) */}
+        <AnimatePresence>
+          {showProfiles && (
+            <motion.aside
+              initial={{ x: 300, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              exit={{ x: 300, opacity: 0 }}
+              className="w-96 border-l border-[#141414] bg-[#0A0A0A] overflow-y-auto p-4 z-10 hidden md:block"
+            >
+              <ProfilesPanel profiles={profiles} providers={providers} onChange={fetchProfiles} />
+            </motion.aside>
+          )}
+        </AnimatePresence>
       </div>
     </div>
   );
 }
 
-function ConnectorItem({ 
-  icon, 
-  name, 
-  description, 
-  connected, 
-  onConnect, 
-  onDisconnect,
-  disabled 
-}: { 
-  icon: React.ReactNode; 
-  name: string; 
-  description: string; 
-  connected: boolean; 
-  onConnect: () => void;
-  onDisconnect: () => void;
-  disabled?: boolean;
-}) {
+const formatCompact = (n: number) => new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(n);
+
+// Today's usage in the header; a bar appears for each meter that has a daily limit
+function UsageMeter({ usage }: { usage: UsageSummary }) {
+  const meters = [
+    { label: 'Tokens', used: usage.day.inputTokens + usage.day.outputTokens, limit: usage.limits.tokensPerDay },
+    { label: 'Requests', used: usage.day.modelRequests, limit: usage.limits.modelRequestsPerDay },
+    { label: 'Tools', used: usage.day.toolCalls, limit: usage.limits.toolCallsPerDay },
+  ];
+  const breakdown = usage.providers.map(p => p.kind === 'model'
+    ? `${p.provider}: ${p.requests} requests, ${formatCompact(p.inputTokens + p.outputTokens)} tokens`
+    : `${p.provider}: ${p.requests} tool calls`);
+  const resetsAt = new Date(usage.day.resetsAt).toLocaleTimeString([], { timeStyle: 'short' });
+
   return (
-    <div className={`p-3 border rounded-sm transition-all ${connected ? 'bg-[#F27D26]/5 border-[#F27D26]/30' : 'bg-black/20 border-white/5'} ${disabled ? 'opacity-30 grayscale cursor-not-allowed' : ''}`}>
-      <div className="flex items-center justify-between mb-2">
-        <div className="flex items-center gap-2">
-          <div className={`p-1.5 rounded-sm ${connected ? 'bg-[#F27D26] text-black' : 'bg-white/5 text-white/40'}`}>
-            {icon}
-          </div>
-          <span className="text-[11px] font-bold uppercase tracking-wider">{name}</span>
-        </div>
-        {connected ? (
-          <div className="flex items-center gap-2">
-            <CheckCircle2 size={12} className="text-emerald-500" />
-            <button 
-              onClick={onDisconnect}
-              className="p-1 hover:text-red-500 transition-colors"
-              title="Disconnect"
-            >
-              <LogOut size={12} />
-            </button>
+    <div
+      className="hidden sm:flex items-center gap-4 text-[10px] uppercase tracking-widest border-l border-[#141414] pl-4"
+      title={[`Usage today, resets at ${resetsAt}`, ...breakdown].join('\n')}
+    >
+      <Zap size={12} className="text-[#F27D26] opacity-70" />
+      {meters.map(meter => {
+        const ratio = meter.limit ? Math.min(meter.used / meter.limit, 1) : 0;
+        return (
+          <div key={meter.label} className="flex flex-col gap-1 min-w-[64px]">
+            <div className="flex items-center justify-between gap-2">
+              <span className="opacity-40">{meter.label}</span>
+              <span className={ratio >= 0.9 ? 'text-red-500' : 'opacity-70'}>
+                {formatCompact(meter.used)}{meter.limit > 0 && ` / ${formatCompact(meter.limit)}`}
+              </span>
+            </div>
+            <div className="h-0.5 bg-[#141414] overflow-hidden">
+              {meter.limit > 0 && (
+                <div className={`h-full ${ratio >= 0.9 ? 'bg-red-500' : 'bg-[#F27D26]'}`} style={{ width: `${ratio * 100}%` }} />
+              )}
+            </div>
           </div>
-        ) : (
-          !disabled && (
+        );
+      })}
+    </div>
+  );
+}
+
+function AuthScreen({ onAuthenticated }: { onAuthenticated: (user: User) => void }) {
+  const [config, setConfig] = useState<AuthConfig | null>(null);
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    getAuthConfig().then(setConfig).catch(err => setError(err.message));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const user = mode === 'login' ? await login(username, password) : await register(username, password);
+      onAuthenticated(user);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-[#E4E3E0] font-mono selection:bg-[#F27D26] selection:text-black flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-sm border border-[#141414] bg-[#0A0A0A] p-8 rounded-lg space-y-6"
+      >
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 bg-[#F27D26] rounded-full flex items-center justify-center text-black shadow-lg shadow-[#F27D26]/20">
+            <Cpu size={18} />
+          </div>
+          <div>
+            <h1 className="text-sm font-bold tracking-tighter uppercase">Nexus: Computer Mode</h1>
+            <p className="text-[10px] opacity-50 uppercase tracking-widest">{mode === 'login' ? 'Operator sign-in' : 'Create operator account'}</p>
+          </div>
+        </div>
+
+        {config && !config.passwordLogin ? (
+          <p className="text-[11px] opacity-60 leading-relaxed">
+            Sign-in is handled by your organization's <span className="text-[#F27D26]">{config.provider}</span> identity provider. Reload the page after signing in there.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="USERNAME"
+              autoComplete="username"
+              className="w-full bg-black/40 border border-[#141414] focus:border-[#F27D26] py-3 px-4 rounded-sm text-sm focus:outline-none transition-all placeholder:opacity-20"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="PASSWORD"
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              className="w-full bg-black/40 border border-[#141414] focus:border-[#F27D26] py-3 px-4 rounded-sm text-sm focus:outline-none transition-all placeholder:opacity-20"
+            />
+            {error && <p className="text-[10px] text-red-400">{error}</p>}
+            <button
+              type="submit"
+              disabled={submitting || !username || !password}
+              className="w-full py-3 bg-[#F27D26] text-black font-bold text-[10px] uppercase tracking-widest hover:bg-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {submitting && <Loader2 size={12} className="animate-spin" />}
+              {mode === 'login' ? 'Sign in' : 'Create account'}
+              <ArrowRight size={14} />
+            </button>
+          </form>
+        )}
+
+        {config?.passwordLogin && config.allowsRegistration && (
+          <button
+            onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }}
+            className="text-[9px] uppercase tracking-widest opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all"
+          >
+            {mode === 'login' ? 'Need an account? Register' : 'Have an account? Sign in'}
+          </button>
+        )}
+      </motion.div>
+    </div>
+  );
+}
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+function StepTimeline({ steps }: { steps: AgentStep[] }) {
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const total = steps.reduce((sum, step) => sum + step.durationMs, 0);
+
+  const copyStep = async (step: AgentStep) => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(step, null, 2));
+      setCopied(step.id);
+      setTimeout(() => setCopied(current => current === step.id ? null : current), 1500);
+    } catch (err) {
+      console.error('Failed to copy step:', err);
+    }
+  };
+
+  return (
+    <div className="mt-4 relative z-10">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 text-[10px] uppercase tracking-widest opacity-40 hover:opacity-100 hover:text-[#F27D26] transition-all"
+      >
+        {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <ListTree size={12} />
+        <span>Trace · {steps.length} steps · {formatDuration(total)}</span>
+      </button>
+      {open && (
+        <div className="mt-3 ml-1.5 border-l border-white/10 space-y-2">
+          {steps.map((step) => {
+            const isOpen = expanded === step.id;
+            const detail = step.kind === 'tool'
+              ? { args: step.args, ...(step.error ? { error: step.error, code: step.code } : { result: step.result }) }
+              : step.text;
+            return (
+              <div key={step.id} className="pl-4 relative">
+                <div className={`absolute -left-[5px] top-1.5 w-2 h-2 rounded-full ${step.error ? 'bg-red-500' : step.kind === 'tool' ? 'bg-[#F27D26]' : 'bg-white/30'}`} />
+                <div className="flex items-center gap-2 text-[10px]">
+                  <button
+                    onClick={() => setExpanded(isOpen ? null : step.id)}
+                    disabled={!detail}
+                    className="flex items-center gap-2 min-w-0 hover:text-[#F27D26] transition-colors disabled:hover:text-inherit"
+                  >
+                    {step.kind === 'tool' ? <Wrench size={11} className="shrink-0 opacity-60" /> : <Brain size={11} className="shrink-0 opacity-60" />}
+                    <span className={`truncate ${step.error ? 'text-red-400' : 'opacity-70'}`}>
+                      {step.kind === 'tool' ? step.name : step.text ? step.text.split('\n')[0] : 'Model response'}
+                    </span>
+                  </button>
+                  {step.approval && <span className="text-[9px] uppercase text-[#F27D26]/60 shrink-0">{step.approval}</span>}
+                  <span className="ml-auto opacity-30 shrink-0">{formatDuration(step.durationMs)}</span>
+                  <button
+                    onClick={() => copyStep(step)}
+                    className="p-0.5 opacity-30 hover:opacity-100 hover:text-[#F27D26] transition-all shrink-0"
+                    title="Copy step"
+                  >
+                    {copied === step.id ? <Check size={11} className="text-emerald-500" /> : <Copy size={11} />}
+                  </button>
+                </div>
+                {step.error && <p className="text-[10px] text-red-400/70 mt-0.5 break-words">{step.error}</p>}
+                {isOpen && detail && (
+                  <pre className="mt-2 bg-black/40 border border-white/10 p-2 text-[10px] whitespace-pre-wrap break-all rounded-sm max-h-64 overflow-y-auto">
+                    {typeof detail === 'string' ? detail : JSON.stringify(detail, null, 2)}
+                  </pre>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ApprovalCard({
+  toolName,
+  args,
+  submitting,
+  onDecision
+}: {
+  toolName: string;
+  args: Record<string, unknown>;
+  submitting: boolean;
+  onDecision: (decision: { approved: boolean; args?: Record<string, unknown>; alwaysAllow?: boolean }) => void;
+}) {
+  const [draft, setDraft] = useState(() => JSON.stringify(args, null, 2));
+  const [alwaysAllow, setAlwaysAllow] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const approve = () => {
+    try {
+      const parsed = JSON.parse(draft);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw new Error('Arguments must be a JSON object');
+      setParseError(null);
+      onDecision({ approved: true, args: parsed, alwaysAllow });
+    } catch (err: any) {
+      setParseError(err.message);
+    }
+  };
+
+  return (
+    <div className="p-3 border border-[#F27D26]/40 bg-[#F27D26]/5 rounded-sm space-y-3 normal-case">
+      <div className="flex items-center gap-2 text-[#F27D26]">
+        <ShieldAlert size={14} />
+        <span className="text-[9px] uppercase font-bold tracking-widest">Approval required: {toolName}</span>
+      </div>
+      <p className="text-[10px] opacity-50 leading-relaxed">
+        This action changes data in a connected app. Review or edit the arguments before it runs.
+      </p>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        disabled={submitting}
+        spellCheck={false}
+        rows={Math.min(12, draft.split('\n').length + 1)}
+        className="w-full bg-black/40 border border-white/10 focus:border-[#F27D26] p-2 text-[11px] font-mono rounded-sm focus:outline-none resize-y"
+      />
+      {parseError && <p className="text-[10px] text-red-400">{parseError}</p>}
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <label className="flex items-center gap-2 text-[10px] opacity-60 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={alwaysAllow}
+            onChange={(e) => setAlwaysAllow(e.target.checked)}
+            disabled={submitting}
+            className="accent-[#F27D26]"
+          />
+          Always allow {toolName} in this conversation
+        </label>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onDecision({ approved: false })}
+            disabled={submitting}
+            className="px-3 py-1.5 border border-white/10 hover:border-red-500 hover:text-red-500 text-[9px] uppercase font-bold tracking-widest transition-colors disabled:opacity-30"
+          >
+            Reject
+          </button>
+          <button
+            onClick={approve}
+            disabled={submitting}
+            className="px-3 py-1.5 bg-[#F27D26] text-black hover:bg-white text-[9px] uppercase font-bold tracking-widest transition-colors disabled:opacity-30 flex items-center gap-1"
+          >
+            {submitting && <Loader2 size={10} className="animate-spin" />}
+            Approve
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ConnectorItem({ 
+  icon, 
+  name, 
+  description, 
+  accounts, 
+  onConnect, 
+  onDisconnect,
+  disabled 
+}: { 
+  icon: React.ReactNode; 
+  name: string; 
+  description: string; 
+  accounts: Connection[]; 
+  onConnect: () => void;
+  onDisconnect: (connectionId: string) => void;
+  disabled?: boolean;
+}) {
+  const connected = accounts.length > 0;
+  const needsReauth = accounts.some(a => a.status === 'needs_reauth');
+
+  return (
+    <div className={`p-3 border rounded-sm transition-all ${connected ? 'bg-[#F27D26]/5 border-[#F27D26]/30' : 'bg-black/20 border-white/5'} ${disabled ? 'opacity-30 grayscale cursor-not-allowed' : ''}`}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <div className={`p-1.5 rounded-sm ${connected ? 'bg-[#F27D26] text-black' : 'bg-white/5 text-white/40'}`}>
+            {icon}
+          </div>
+          <span className="text-[11px] font-bold uppercase tracking-wider">{name}</span>
+        </div>
+        {connected ? (
+          <div className="flex items-center gap-2">
+            {needsReauth ? (
+              <XCircle size={12} className="text-red-500" />
+            ) : (
+              <CheckCircle2 size={12} className="text-emerald-500" />
+            )}
+            <button 
+              onClick={onConnect}
+              className="p-1 hover:text-[#F27D26] transition-colors"
+              title="Add another account"
+            >
+              <Plus size={12} />
+            </button>
+          </div>
+        ) : (
+          !disabled && (
             <button 
               onClick={onConnect}
               className="text-[9px] uppercase font-bold text-[#F27D26] hover:text-white transition-colors"
@@ -555,7 +1539,908 @@ function ConnectorItem({
         )}
       </div>
       <p className="text-[9px] opacity-40 leading-tight">{description}</p>
-      {disabled && <p className="text-[8px] text-[#F27D26] mt-1 uppercase font-bold">Coming Soon</p>}
+      {accounts.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {accounts.map((account) => (
+            <div key={account.id} className="flex items-center justify-between gap-2 text-[10px]">
+              <span className={`truncate ${account.status === 'needs_reauth' ? 'text-red-400' : 'opacity-60'}`}>{account.account}</span>
+              <div className="flex items-center gap-2 shrink-0">
+                {account.status === 'needs_reauth' && (
+                  <button 
+                    onClick={onConnect}
+                    className="text-[9px] uppercase font-bold text-red-500 hover:text-white transition-colors"
+                  >
+                    Reconnect
+                  </button>
+                )}
+                <button 
+                  onClick={() => onDisconnect(account.id)}
+                  className="p-1 hover:text-red-500 transition-colors"
+                  title="Disconnect"
+                >
+                  <LogOut size={12} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {needsReauth && <p className="text-[8px] text-red-500 mt-1 uppercase font-bold">Authorization expired</p>}
+      {disabled && <p className="text-[8px] text-[#F27D26] mt-1 uppercase font-bold">Not configured</p>}
+    </div>
+  );
+}
+
+const auditStatusStyle: Record<AuditEntry['status'], string> = {
+  success: 'text-emerald-500',
+  error: 'text-red-500',
+  rejected: 'text-white/40',
+};
+
+function ActivityPanel({ providers, busy }: { providers: ProviderInfo[]; busy: boolean }) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [loading, setLoading] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      setEntries(await listAuditEntries(filters));
+    } catch (err) {
+      console.error('Failed to load activity:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload whenever the filters change and after each agent run finishes
+  useEffect(() => {
+    if (!busy) refresh();
+  }, [filters, busy]);
+
+  const setFilter = (key: keyof AuditFilters, value: string) => setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  const toolNames = [...new Set(entries.map(e => e.tool_name))].sort();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] uppercase tracking-[0.2em] text-[#F27D26] font-bold">Activity</h3>
+        <div className="flex items-center gap-2">
+          <a href={auditExportUrl(filters, 'csv')} className="flex items-center gap-1 text-[9px] uppercase font-bold opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all" title="Export CSV">
+            <Download size={11} />
+            CSV
+          </a>
+          <a href={auditExportUrl(filters, 'json')} className="flex items-center gap-1 text-[9px] uppercase font-bold opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all" title="Export JSON">
+            <Download size={11} />
+            JSON
+          </a>
+          <button onClick={refresh} className="p-1 opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all" title="Refresh">
+            <RefreshCw size={11} className={loading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <select
+          value={filters.provider || ''}
+          onChange={(e) => setFilter('provider', e.target.value)}
+          className="bg-black/40 border border-white/10 focus:border-[#F27D26] p-1 text-[10px] rounded-sm focus:outline-none"
+        >
+          <option value="">All apps</option>
+          {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+        <select
+          value={filters.tool || ''}
+          onChange={(e) => setFilter('tool', e.target.value)}
+          className="bg-black/40 border border-white/10 focus:border-[#F27D26] p-1 text-[10px] rounded-sm focus:outline-none"
+        >
+          <option value="">All tools</option>
+          {filters.tool && !toolNames.includes(filters.tool) && <option value={filters.tool}>{filters.tool}</option>}
+          {toolNames.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select
+          value={filters.status || ''}
+          onChange={(e) => setFilter('status', e.target.value)}
+          className="bg-black/40 border border-white/10 focus:border-[#F27D26] p-1 text-[10px] rounded-sm focus:outline-none"
+        >
+          <option value="">Any status</option>
+          <option value="success">Success</option>
+          <option value="error">Error</option>
+          <option value="rejected">Rejected</option>
+        </select>
+      </div>
+
+      <div className="space-y-1">
+        {entries.length === 0 && !loading && (
+          <p className="text-[10px] opacity-40 leading-relaxed">No tool calls recorded yet.</p>
+        )}
+        {entries.map((entry) => (
+          <div
+            key={entry.id}
+            onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+            className="p-2 border border-white/5 hover:bg-white/5 rounded-sm cursor-pointer transition-all"
+          >
+            <div className="flex items-center justify-between gap-2 text-[10px]">
+              <span className="font-bold truncate">{entry.tool_name}</span>
+              <span className={`uppercase text-[9px] font-bold shrink-0 ${auditStatusStyle[entry.status]}`}>{entry.status}</span>
+            </div>
+            <div className="flex items-center gap-3 text-[9px] opacity-30 mt-0.5">
+              <span>{parseTimestamp(entry.created_at).toLocaleString([], { dateStyle: 'short', timeStyle: 'medium' })}</span>
+              {entry.latency_ms !== null && <span>{entry.latency_ms}ms</span>}
+              {entry.http_status !== null && <span>HTTP {entry.http_status}</span>}
+            </div>
+            {entry.error && <p className="text-[10px] text-red-400 mt-1 break-words">{entry.error}</p>}
+            {expanded === entry.id && (
+              <div className="mt-2 space-y-2 normal-case">
+                <pre className="bg-black/40 border border-white/10 p-2 text-[10px] whitespace-pre-wrap break-all rounded-sm">{JSON.stringify(entry.args, null, 2)}</pre>
+                {entry.result_summary && (
+                  <pre className="bg-black/40 border border-white/10 p-2 text-[10px] whitespace-pre-wrap break-all rounded-sm opacity-60">{entry.result_summary}</pre>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const runStatusStyle: Record<ScheduledRun['status'], string> = {
+  running: 'text-[#F27D26]',
+  success: 'text-emerald-500',
+  error: 'text-red-500',
+};
+
+const formatRunTime = (ms: number) => new Date(ms).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+const emptyTask: TaskInput = { name: '', prompt: '', cron: '0 9 * * 1-5', allowed_tools: [] };
+
+function SchedulesPanel({
+  onOpenConversation,
+  onRunsChanged,
+}: {
+  onOpenConversation: (id: string) => void;
+  onRunsChanged: () => void;
+}) {
+  const [tasks, setTasks] = useState<ScheduledTask[]>([]);
+  const [runs, setRuns] = useState<ScheduledRun[]>([]);
+  const [tools, setTools] = useState<ToolInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState<{ id: string | null; input: TaskInput } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      const [nextTasks, nextRuns] = await Promise.all([listScheduledTasks(), listScheduledRuns()]);
+      setTasks(nextTasks);
+      setRuns(nextRuns);
+      onRunsChanged();
+    } catch (err) {
+      console.error('Failed to load schedules:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    listTools()
+      .then(all => setTools(all.filter(t => t.mutating)))
+      .catch(err => console.error('Failed to load tools:', err));
+  }, []);
+
+  // Keep polling while a run is in progress so its outcome shows up without a manual refresh
+  const anyRunning = tasks.some(t => t.running) || runs.some(r => r.status === 'running');
+  useEffect(() => {
+    if (!anyRunning) return;
+    const timer = setInterval(refresh, 5000);
+    return () => clearInterval(timer);
+  }, [anyRunning]);
+
+  const act = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const save = () => editing && act(async () => {
+    if (editing.id) await updateScheduledTask(editing.id, editing.input);
+    else await createScheduledTask(editing.input);
+    setEditing(null);
+  });
+
+  const remove = (task: ScheduledTask) => {
+    if (!window.confirm(`Delete "${task.name}" and its run history?`)) return;
+    act(() => deleteScheduledTask(task.id));
+  };
+
+  const setInput = (changes: Partial<TaskInput>) => setEditing(prev => prev && { ...prev, input: { ...prev.input, ...changes } });
+  const toggleTool = (name: string) => editing && setInput({
+    allowed_tools: editing.input.allowed_tools.includes(name)
+      ? editing.input.allowed_tools.filter(t => t !== name)
+      : [...editing.input.allowed_tools, name],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] uppercase tracking-[0.2em] text-[#F27D26] font-bold">Schedules</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setEditing({ id: null, input: emptyTask })}
+            className="flex items-center gap-1 text-[9px] uppercase font-bold opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all"
+          >
+            <Plus size={11} />
+            New
+          </button>
+          <button onClick={refresh} className="p-1 opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all" title="Refresh">
+            <RefreshCw size={11} className={loading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-[10px] text-red-400 break-words">{error}</p>}
+
+      {editing && (
+        <div className="p-3 border border-[#F27D26]/40 bg-[#F27D26]/5 rounded-sm space-y-2">
+          <input
+            value={editing.input.name}
+            onChange={(e) => setInput({ name: e.target.value })}
+            placeholder="Name"
+            className="w-full bg-black/40 border border-white/10 focus:border-[#F27D26] p-1.5 text-[11px] rounded-sm focus:outline-none"
+          />
+          <textarea
+            value={editing.input.prompt}
+            onChange={(e) => setInput({ prompt: e.target.value })}
+            placeholder="What should the agent do?"
+            rows={4}
+            className="w-full bg-black/40 border border-white/10 focus:border-[#F27D26] p-1.5 text-[11px] rounded-sm focus:outline-none resize-none"
+          />
+          <input
+            value={editing.input.cron}
+            onChange={(e) => setInput({ cron: e.target.value })}
+            placeholder="minute hour day month weekday"
+            className="w-full bg-black/40 border border-white/10 focus:border-[#F27D26] p-1.5 text-[11px] font-mono rounded-sm focus:outline-none"
+          />
+          <p className="text-[9px] opacity-40">Cron in server time, e.g. <code>0 9 * * 1-5</code> for weekdays at 9:00 or <code>@hourly</code>.</p>
+          {tools.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-[9px] uppercase tracking-widest opacity-50">Allowed without approval</p>
+              <div className="max-h-32 overflow-y-auto space-y-0.5">
+                {tools.map(tool => (
+                  <label key={tool.name} className="flex items-center gap-2 text-[10px] cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={editing.input.allowed_tools.includes(tool.name)}
+                      onChange={() => toggleTool(tool.name)}
+                      className="accent-[#F27D26]"
+                    />
+                    <span className="font-mono">{tool.name}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-[9px] opacity-40">Other actions that change data are declined, since nobody is there to approve them.</p>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setEditing(null)} className="px-2 py-1 text-[9px] uppercase font-bold opacity-50 hover:opacity-100 transition-all">
+              Cancel
+            </button>
+            <button onClick={save} className="px-2 py-1 text-[9px] uppercase font-bold bg-[#F27D26] text-black rounded-sm hover:bg-white transition-all">
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {tasks.length === 0 && !loading && !editing && (
+          <p className="text-[10px] opacity-40 leading-relaxed">No scheduled tasks yet. Create one to have the agent run a prompt on a schedule.</p>
+        )}
+        {tasks.map(task => (
+          <div key={task.id} className="p-2 border border-white/5 rounded-sm space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[11px] font-bold truncate" title={task.prompt}>{task.name}</span>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  onClick={() => act(() => runScheduledTask(task.id))}
+                  disabled={task.running}
+                  className="p-1 opacity-50 hover:opacity-100 hover:text-[#F27D26] disabled:opacity-20 transition-all"
+                  title="Run now"
+                >
+                  <Play size={11} />
+                </button>
+                <button
+                  onClick={() => act(() => setScheduledTaskPaused(task.id, task.enabled))}
+                  className="p-1 opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all"
+                  title={task.enabled ? 'Pause' : 'Resume'}
+                >
+                  {task.enabled ? <Pause size={11} /> : <CalendarClock size={11} />}
+                </button>
+                <button
+                  onClick={() => setEditing({ id: task.id, input: { name: task.name, prompt: task.prompt, cron: task.cron, allowed_tools: task.allowed_tools } })}
+                  className="p-1 opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all"
+                  title="Edit"
+                >
+                  <Pencil size={11} />
+                </button>
+                <button onClick={() => remove(task)} className="p-1 opacity-50 hover:opacity-100 hover:text-red-500 transition-all" title="Delete">
+                  <Trash2 size={11} />
+                </button>
+              </div>
+            </div>
+            <div className="flex items-center gap-3 text-[9px]">
+              <code className="opacity-50">{task.cron}</code>
+              {task.running ? (
+                <span className="text-[#F27D26] uppercase font-bold flex items-center gap-1"><Loader2 size={9} className="animate-spin" />Running</span>
+              ) : task.enabled ? (
+                <span className="opacity-50">Next {task.next_run_at ? formatRunTime(task.next_run_at) : '—'}</span>
+              ) : (
+                <span className="text-white/40 uppercase font-bold">Paused</span>
+              )}
+            </div>
+            {task.enabled && task.upcoming.length > 1 && (
+              <p className="text-[9px] opacity-30">Then {task.upcoming.slice(1).map(formatRunTime).join(', ')}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {runs.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-[9px] uppercase tracking-widest opacity-50">Recent runs</h4>
+          {runs.map(run => (
+            <div
+              key={run.id}
+              onClick={() => run.conversation_id && onOpenConversation(run.conversation_id)}
+              className={`p-2 border border-white/5 rounded-sm transition-all ${run.conversation_id ? 'hover:bg-white/5 cursor-pointer' : ''}`}
+              title={run.conversation_id ? 'Open transcript' : undefined}
+            >
+              <div className="flex items-center justify-between gap-2 text-[10px]">
+                <span className="font-bold truncate">{run.task_name}</span>
+                <span className={`uppercase text-[9px] font-bold shrink-0 ${runStatusStyle[run.status]}`}>{run.status}</span>
+              </div>
+              <div className="flex items-center gap-3 text-[9px] opacity-30 mt-0.5">
+                <span>{formatRunTime(run.started_at)}</span>
+                {run.finished_at && <span>{formatDuration(run.finished_at - run.started_at)}</span>}
+                {run.trigger === 'manual' && <span>Run manually</span>}
+              </div>
+              {run.error && <p className="text-[10px] text-red-400 mt-1 break-words">{run.error}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CommandSuggestion {
+  name: string;
+  usage: string;
+  description: string;
+  takesArgs: boolean;
+}
+
+function CommandMenu({
+  suggestions,
+  selected,
+  hint,
+  isError,
+  onPick,
+}: {
+  suggestions: CommandSuggestion[];
+  selected: number;
+  hint: string | null;
+  isError: boolean;
+  onPick: (suggestion: CommandSuggestion) => void;
+}) {
+  if (!suggestions.length && !hint) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 bg-[#0A0A0A] border border-[#141414] rounded-sm shadow-xl shadow-black/40 overflow-hidden">
+      {suggestions.map((suggestion, i) => (
+        <button
+          key={suggestion.name}
+          type="button"
+          // Keep focus in the input so typing can continue after picking
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onPick(suggestion)}
+          className={`w-full text-left px-4 py-2 flex items-baseline gap-3 text-[11px] transition-all ${i === Math.min(selected, suggestions.length - 1) ? 'bg-[#F27D26]/10 text-white' : 'text-white/60 hover:bg-white/5'}`}
+        >
+          <span className="font-mono text-[#F27D26] shrink-0">{suggestion.usage}</span>
+          <span className="truncate opacity-50">{suggestion.description}</span>
+        </button>
+      ))}
+      {!suggestions.length && hint && (
+        <p className={`px-4 py-2 text-[11px] font-mono ${isError ? 'text-red-400' : 'text-white/50'}`}>{hint}</p>
+      )}
+    </div>
+  );
+}
+
+const emptyTemplate: TemplateInput = { name: '', description: '', body: '' };
+
+function TemplatesPanel({ templates, onChange }: { templates: PromptTemplate[]; onChange: () => void }) {
+  const [editing, setEditing] = useState<{ id: string | null; input: TemplateInput } | null>(null);
+  const [overwrite, setOverwrite] = useState(false);
+  const [notice, setNotice] = useState<{ text: string; error: boolean } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const act = async (action: () => Promise<unknown>) => {
+    setNotice(null);
+    try {
+      await action();
+      onChange();
+    } catch (err: any) {
+      setNotice({ text: err.message, error: true });
+    }
+  };
+
+  const save = () => editing && act(async () => {
+    if (editing.id) await updateTemplate(editing.id, editing.input);
+    else await createTemplate(editing.input);
+    setEditing(null);
+  });
+
+  const remove = (template: PromptTemplate) => {
+    if (!window.confirm(`Delete /${template.name}?`)) return;
+    act(() => deleteTemplate(template.id));
+  };
+
+  const importFile = async (file: File) => {
+    let pack: unknown;
+    try {
+      pack = JSON.parse(await file.text());
+    } catch {
+      setNotice({ text: `${file.name} is not valid JSON`, error: true });
+      return;
+    }
+    act(async () => {
+      const { created, updated, skipped } = await importTemplates(pack, overwrite);
+      setNotice({ text: `Imported ${created} new, ${updated} replaced, ${skipped} skipped`, error: false });
+    });
+  };
+
+  const setInput = (changes: Partial<TemplateInput>) => setEditing(prev => prev && { ...prev, input: { ...prev.input, ...changes } });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] uppercase tracking-[0.2em] text-[#F27D26] font-bold">Templates</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setEditing({ id: null, input: emptyTemplate })}
+            className="flex items-center gap-1 text-[9px] uppercase font-bold opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all"
+          >
+            <Plus size={11} />
+            New
+          </button>
+          <a href={templateExportUrl} className="flex items-center gap-1 text-[9px] uppercase font-bold opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all" title="Export all templates">
+            <Download size={11} />
+            Export
+          </a>
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="flex items-center gap-1 text-[9px] uppercase font-bold opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all"
+            title="Import a template pack"
+          >
+            <Upload size={11} />
+            Import
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) importFile(file);
+            }}
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-[9px] uppercase tracking-widest opacity-50 cursor-pointer">
+        <input type="checkbox" checked={overwrite} onChange={(e) => setOverwrite(e.target.checked)} className="accent-[#F27D26]" />
+        Imports replace templates with the same name
+      </label>
+
+      {notice && <p className={`text-[10px] break-words ${notice.error ? 'text-red-400' : 'text-emerald-500'}`}>{notice.text}</p>}
+
+      {editing && (
+        <div className="p-3 border border-[#F27D26]/40 bg-[#F27D26]/5 rounded-sm space-y-2">
+          <div className="flex items-center gap-1">
+            <span className="text-[#F27D26] font-mono text-[11px]">/</span>
+            <input
+              value={editing.input.name}
+              onChange={(e) => setInput({ name: e.target.value })}
+              placeholder="command"
+              className="flex-1 bg-black/40 border border-white/10 focus:border-[#F27D26] p-1.5 text-[11px] font-mono rounded-sm focus:outline-none"
+            />
+          </div>
+          <input
+            value={editing.input.description}
+            onChange={(e) => setInput({ description: e.target.value })}
+            placeholder="Description (optional)"
+            className="w-full bg-black/40 border border-white/10 focus:border-[#F27D26] p-1.5 text-[11px] rounded-sm focus:outline-none"
+          />
+          <textarea
+            value={editing.input.body}
+            onChange={(e) => setInput({ body: e.target.value })}
+            placeholder="Open an issue in {{repo}} titled {{title}}"
+            rows={5}
+            className="w-full bg-black/40 border border-white/10 focus:border-[#F27D26] p-1.5 text-[11px] rounded-sm focus:outline-none resize-none"
+          />
+          <p className="text-[9px] opacity-40">Use <code>{'{{name}}'}</code> for variables, filled in with <code>/command name=value</code>.</p>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setEditing(null)} className="px-2 py-1 text-[9px] uppercase font-bold opacity-50 hover:opacity-100 transition-all">
+              Cancel
+            </button>
+            <button onClick={save} className="px-2 py-1 text-[9px] uppercase font-bold bg-[#F27D26] text-black rounded-sm hover:bg-white transition-all">
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {templates.length === 0 && !editing && (
+          <p className="text-[10px] opacity-40 leading-relaxed">No templates yet. Save prompts you use often and run them by typing / in the input bar.</p>
+        )}
+        {templates.map(template => (
+          <div key={template.id} className="p-2 border border-white/5 rounded-sm space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[11px] font-mono text-[#F27D26] truncate">{templateUsage(template)}</span>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  onClick={() => setEditing({ id: template.id, input: { name: template.name, description: template.description, body: template.body } })}
+                  className="p-1 opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all"
+                  title="Edit"
+                >
+                  <Pencil size={11} />
+                </button>
+                <button onClick={() => remove(template)} className="p-1 opacity-50 hover:opacity-100 hover:text-red-500 transition-all" title="Delete">
+                  <Trash2 size={11} />
+                </button>
+              </div>
+            </div>
+            {template.description && <p className="text-[10px] opacity-50">{template.description}</p>}
+            <p className="text-[10px] opacity-30 line-clamp-2">{template.body}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function MemoryPanel({ busy }: { busy: boolean }) {
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [editing, setEditing] = useState<{ id: string | null; content: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setMemories(await listMemories());
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // The agent may remember or forget things during a run, so reload after each one
+  useEffect(() => {
+    if (!busy) refresh();
+  }, [busy]);
+
+  const act = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const save = () => editing && act(async () => {
+    if (editing.id) await updateMemory(editing.id, editing.content);
+    else await createMemory(editing.content);
+    setEditing(null);
+  });
+
+  const forgetAll = () => {
+    if (!window.confirm('Forget everything the agent remembers about you?')) return;
+    act(clearMemories);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] uppercase tracking-[0.2em] text-[#F27D26] font-bold">Memory</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setEditing({ id: null, content: '' })}
+            className="flex items-center gap-1 text-[9px] uppercase font-bold opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all"
+          >
+            <Plus size={11} />
+            New
+          </button>
+          {memories.length > 0 && (
+            <button
+              onClick={forgetAll}
+              className="flex items-center gap-1 text-[9px] uppercase font-bold opacity-50 hover:opacity-100 hover:text-red-500 transition-all"
+            >
+              <Trash2 size={11} />
+              Forget all
+            </button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-[10px] opacity-40 leading-relaxed">
+        Facts the agent keeps between conversations, like your default repo or how you like issues written. It asks to save them when you tell it something worth remembering; you can also add them here.
+      </p>
+
+      {error && <p className="text-[10px] text-red-400 break-words">{error}</p>}
+
+      {editing && (
+        <div className="p-3 border border-[#F27D26]/40 bg-[#F27D26]/5 rounded-sm space-y-2">
+          <textarea
+            value={editing.content}
+            onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+            placeholder="Default GitHub repo is acme/app"
+            rows={3}
+            autoFocus
+            className="w-full bg-black/40 border border-white/10 focus:border-[#F27D26] p-1.5 text-[11px] rounded-sm focus:outline-none resize-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setEditing(null)} className="px-2 py-1 text-[9px] uppercase font-bold opacity-50 hover:opacity-100 transition-all">
+              Cancel
+            </button>
+            <button onClick={save} className="px-2 py-1 text-[9px] uppercase font-bold bg-[#F27D26] text-black rounded-sm hover:bg-white transition-all">
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {memories.length === 0 && !editing && (
+          <p className="text-[10px] opacity-40">Nothing remembered yet.</p>
+        )}
+        {memories.map(memory => (
+          <div key={memory.id} className="p-2 border border-white/5 rounded-sm flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-[11px] break-words">{memory.content}</p>
+              <p className="text-[9px] opacity-30 mt-1">{parseTimestamp(memory.updated_at).toLocaleString()}</p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <button
+                onClick={() => setEditing({ id: memory.id, content: memory.content })}
+                className="p-1 opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all"
+                title="Edit"
+              >
+                <Pencil size={11} />
+              </button>
+              <button onClick={() => act(() => deleteMemory(memory.id))} className="p-1 opacity-50 hover:opacity-100 hover:text-red-500 transition-all" title="Forget">
+                <Trash2 size={11} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const emptyProfile: ProfileInput = { name: '', system_prompt: '', model: '', temperature: null, tools: null, connectors: null, web_search: true };
+
+function ProfilesPanel({ profiles, providers, onChange }: { profiles: AgentProfile[]; providers: ProviderInfo[]; onChange: () => void }) {
+  const [tools, setTools] = useState<ToolInfo[]>([]);
+  const [editing, setEditing] = useState<{ id: string | null; input: ProfileInput } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listTools().then(setTools).catch(err => setError(err.message));
+  }, []);
+
+  const act = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      onChange();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const save = () => editing && act(async () => {
+    if (editing.id) await updateProfile(editing.id, editing.input);
+    else await createProfile(editing.input);
+    setEditing(null);
+  });
+
+  const remove = (profile: AgentProfile) => {
+    if (!window.confirm(`Delete the ${profile.name} profile?`)) return;
+    act(() => deleteProfile(profile.id));
+  };
+
+  const setInput = (changes: Partial<ProfileInput>) => setEditing(prev => prev && { ...prev, input: { ...prev.input, ...changes } });
+  const toggle = (list: string[], name: string) => list.includes(name) ? list.filter(n => n !== name) : [...list, name];
+
+  const summary = (profile: AgentProfile) => [
+    profile.model || 'default model',
+    profile.temperature !== null && `temperature ${profile.temperature}`,
+    profile.connectors ? `apps: ${profile.connectors.join(', ') || 'none'}` : 'all apps',
+    profile.tools && `${profile.tools.length} tools`,
+    profile.web_search && 'web search',
+  ].filter(Boolean).join(' · ');
+
+  const input = editing?.input;
+  const connectorOff = (tool: ToolInfo) => !!(tool.provider && input?.connectors && !input.connectors.includes(tool.provider));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] uppercase tracking-[0.2em] text-[#F27D26] font-bold">Profiles</h3>
+        <button
+          onClick={() => setEditing({ id: null, input: emptyProfile })}
+          className="flex items-center gap-1 text-[9px] uppercase font-bold opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all"
+        >
+          <Plus size={11} />
+          New
+        </button>
+      </div>
+
+      {error && <p className="text-[10px] text-red-400 break-words">{error}</p>}
+
+      {editing && input && (
+        <div className="p-3 border border-[#F27D26]/40 bg-[#F27D26]/5 rounded-sm space-y-2">
+          <input
+            value={input.name}
+            onChange={(e) => setInput({ name: e.target.value })}
+            placeholder="Name, e.g. Triage"
+            className="w-full bg-black/40 border border-white/10 focus:border-[#F27D26] p-1.5 text-[11px] rounded-sm focus:outline-none"
+          />
+          <textarea
+            value={input.system_prompt}
+            onChange={(e) => setInput({ system_prompt: e.target.value })}
+            placeholder="System prompt (leave empty for the default Nexus instructions)"
+            rows={5}
+            className="w-full bg-black/40 border border-white/10 focus:border-[#F27D26] p-1.5 text-[11px] rounded-sm focus:outline-none resize-none"
+          />
+          <div className="flex gap-2">
+            <input
+              value={input.model}
+              onChange={(e) => setInput({ model: e.target.value })}
+              placeholder="Model (default)"
+              className="flex-1 min-w-0 bg-black/40 border border-white/10 focus:border-[#F27D26] p-1.5 text-[11px] font-mono rounded-sm focus:outline-none"
+            />
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={input.temperature ?? ''}
+              onChange={(e) => setInput({ temperature: e.target.value === '' ? null : Number(e.target.value) })}
+              placeholder="Temp."
+              title="Temperature, 0 to 2; empty for the model's default"
+              className="w-20 bg-black/40 border border-white/10 focus:border-[#F27D26] p-1.5 text-[11px] rounded-sm focus:outline-none"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-[10px] cursor-pointer">
+            <input type="checkbox" checked={input.web_search} onChange={(e) => setInput({ web_search: e.target.checked })} className="accent-[#F27D26]" />
+            Web search grounding
+          </label>
+
+          <div className="space-y-1">
+            <label className="flex items-center gap-2 text-[10px] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={input.connectors === null}
+                onChange={(e) => setInput({ connectors: e.target.checked ? null : providers.map(p => p.id) })}
+                className="accent-[#F27D26]"
+              />
+              All connected apps
+            </label>
+            {input.connectors && (
+              <div className="pl-5 flex flex-wrap gap-x-3 gap-y-1">
+                {providers.map(p => (
+                  <label key={p.id} className="flex items-center gap-1 text-[10px] opacity-70 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={input.connectors!.includes(p.id)}
+                      onChange={() => setInput({ connectors: toggle(input.connectors!, p.id) })}
+                      className="accent-[#F27D26]"
+                    />
+                    {p.label}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <label className="flex items-center gap-2 text-[10px] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={input.tools === null}
+                onChange={(e) => setInput({ tools: e.target.checked ? null : tools.map(t => t.name) })}
+                className="accent-[#F27D26]"
+              />
+              All tools
+            </label>
+            {input.tools && (
+              <div className="pl-5 space-y-0.5 max-h-48 overflow-y-auto">
+                {tools.map(tool => (
+                  <label key={tool.name} className={`flex items-center gap-1 text-[10px] font-mono cursor-pointer ${connectorOff(tool) ? 'opacity-30' : 'opacity-70'}`}>
+                    <input
+                      type="checkbox"
+                      checked={input.tools!.includes(tool.name)}
+                      onChange={() => setInput({ tools: toggle(input.tools!, tool.name) })}
+                      className="accent-[#F27D26]"
+                    />
+                    {tool.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setEditing(null)} className="px-2 py-1 text-[9px] uppercase font-bold opacity-50 hover:opacity-100 transition-all">
+              Cancel
+            </button>
+            <button onClick={save} className="px-2 py-1 text-[9px] uppercase font-bold bg-[#F27D26] text-black rounded-sm hover:bg-white transition-all">
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {profiles.length === 0 && !editing && (
+          <p className="text-[10px] opacity-40 leading-relaxed">
+            No profiles yet. A profile sets the agent's instructions, model and tools, e.g. a Triage profile that only sees GitHub. Pick one in the header before sending a message.
+          </p>
+        )}
+        {profiles.map(profile => (
+          <div key={profile.id} className="p-2 border border-white/5 rounded-sm space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[11px] text-[#F27D26] truncate">{profile.name}</span>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  onClick={() => setEditing({ id: profile.id, input: {
+                    name: profile.name,
+                    system_prompt: profile.system_prompt,
+                    model: profile.model,
+                    temperature: profile.temperature,
+                    tools: profile.tools,
+                    connectors: profile.connectors,
+                    web_search: profile.web_search,
+                  } })}
+                  className="p-1 opacity-50 hover:opacity-100 hover:text-[#F27D26] transition-all"
+                  title="Edit"
+                >
+                  <Pencil size={11} />
+                </button>
+                <button onClick={() => remove(profile)} className="p-1 opacity-50 hover:opacity-100 hover:text-red-500 transition-all" title="Delete">
+                  <Trash2 size={11} />
+                </button>
+              </div>
+            </div>
+            <p className="text-[10px] opacity-40">{summary(profile)}</p>
+            {profile.system_prompt && <p className="text-[10px] opacity-30 line-clamp-2">{profile.system_prompt}</p>}
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
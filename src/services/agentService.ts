@@ -0,0 +1,117 @@
+export interface Source {
+  uri: string;
+  title: string;
+}
+
+/** One entry in the execution trace of an assistant turn */
+export interface AgentStep {
+  id: string;
+  kind: "thought" | "tool";
+  text?: string;
+  name?: string;
+  args?: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  code?: string;
+  approval?: "approved" | "edited" | "rejected";
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Why a run ended early: the user stopped it, or it hit one of its limits or the user's usage limits */
+export type StopReason = "cancelled" | "timeout" | "token_budget" | "iteration_limit" | "usage_limit";
+
+export interface AgentResponse {
+  text: string;
+  sources: Source[];
+  steps: AgentStep[];
+  usage?: TokenUsage;
+  stopped?: StopReason;
+}
+
+export type AgentEvent =
+  | { type: "conversation"; id: string; title: string }
+  | { type: "token"; text: string }
+  | { type: "tool_call"; id: string; name: string; args: Record<string, unknown> }
+  | { type: "approval_required"; approvalId: string; id: string; name: string; args: Record<string, unknown> }
+  | { type: "approval_resolved"; approvalId: string; id: string; approved: boolean; edited: boolean }
+  | { type: "tool_result"; id: string; name: string; result?: unknown; error?: string; code?: string }
+  | { type: "step"; step: AgentStep }
+  | { type: "sources"; sources: Source[] }
+  | { type: "done"; text: string; sources: Source[]; usage?: TokenUsage; stopped?: StopReason }
+  | { type: "error"; message: string };
+
+// Parse a Server-Sent Events body into individual events
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<AgentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const raw = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = raw
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trim())
+        .join("\n");
+      if (data) yield JSON.parse(data);
+    }
+  }
+}
+
+export async function consultAgent(
+  userQuery: string,
+  onEvent: (event: AgentEvent) => void = () => {},
+  { conversationId, profileId, signal }: { conversationId?: string | null; profileId?: string | null; signal?: AbortSignal } = {}
+): Promise<AgentResponse> {
+  const res = await fetch("/api/agent/chat", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message: userQuery, conversationId, profileId }),
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.error || `Agent request failed (${res.status})`);
+  }
+
+  const steps: AgentStep[] = [];
+  for await (const event of readEvents(res.body)) {
+    onEvent(event);
+    if (event.type === "step") steps.push(event.step);
+    if (event.type === "error") throw new Error(event.message);
+    if (event.type === "done") {
+      return { text: event.text, sources: event.sources, steps, usage: event.usage, stopped: event.stopped };
+    }
+  }
+
+  throw new Error("Agent stream ended unexpectedly");
+}
+
+export async function answerApproval(
+  approvalId: string,
+  decision: { approved: boolean; args?: Record<string, unknown>; alwaysAllow?: boolean }
+) {
+  const res = await fetch(`/api/agent/approvals/${approvalId}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(decision),
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.error || `Approval failed (${res.status})`);
+  }
+}
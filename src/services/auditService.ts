@@ -0,0 +1,45 @@
+export interface AuditEntry {
+  id: string;
+  conversation_id: string | null;
+  tool_name: string;
+  provider: string | null;
+  args: Record<string, unknown>;
+  status: "success" | "error" | "rejected";
+  result_summary: string | null;
+  error: string | null;
+  latency_ms: number | null;
+  http_status: number | null;
+  created_at: string;
+}
+
+export interface AuditFilters {
+  tool?: string;
+  provider?: string;
+  status?: string;
+  conversation?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+function auditUrl(filters: AuditFilters, exportFormat?: "csv" | "json") {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  if (exportFormat) params.set("export", exportFormat);
+  const query = params.toString();
+  return query ? `/api/audit?${query}` : "/api/audit";
+}
+
+export async function listAuditEntries(filters: AuditFilters = {}) {
+  const res = await fetch(auditUrl(filters));
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data as AuditEntry[];
+}
+
+/** Download link for the filtered log; the session cookie authenticates it */
+export function auditExportUrl(filters: AuditFilters, format: "csv" | "json") {
+  return auditUrl(filters, format);
+}
@@ -0,0 +1,48 @@
+export interface User {
+  id: string;
+  username: string;
+  display_name: string;
+  created_at: string;
+}
+
+export interface AuthConfig {
+  provider: string;
+  passwordLogin: boolean;
+  allowsRegistration: boolean;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data;
+}
+
+export async function getCurrentUser(): Promise<User | null> {
+  const res = await fetch("/api/auth/me");
+  if (res.status === 401) return null;
+  if (!res.ok) throw new Error(`Failed to load session (${res.status})`);
+  return res.json();
+}
+
+export function getAuthConfig() {
+  return request<AuthConfig>("/api/auth/config");
+}
+
+export function login(username: string, password: string) {
+  return request<User>("/api/auth/login", { method: "POST", body: JSON.stringify({ username, password }) });
+}
+
+export function register(username: string, password: string, displayName?: string) {
+  return request<User>("/api/auth/register", {
+    method: "POST",
+    body: JSON.stringify({ username, password, displayName }),
+  });
+}
+
+export function logout() {
+  return request<{ success: boolean }>("/api/auth/logout", { method: "POST" });
+}
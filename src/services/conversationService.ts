@@ -0,0 +1,49 @@
+import { Source, AgentStep } from "./agentService";
+
+export interface Conversation {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StoredMessage {
+  id: string;
+  conversation_id: string;
+  role: "user" | "assistant";
+  content: string;
+  sources: Source[];
+  toolCalls: { id: string; name: string; status: "success" | "error"; error?: string; code?: string }[];
+  steps: AgentStep[];
+  created_at: string;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data;
+}
+
+export function listConversations() {
+  return request<Conversation[]>("/api/conversations");
+}
+
+export function createConversation(title?: string) {
+  return request<Conversation>("/api/conversations", { method: "POST", body: JSON.stringify({ title }) });
+}
+
+export function renameConversation(id: string, title: string) {
+  return request<Conversation>(`/api/conversations/${id}`, { method: "PATCH", body: JSON.stringify({ title }) });
+}
+
+export function deleteConversation(id: string) {
+  return request<{ success: boolean }>(`/api/conversations/${id}`, { method: "DELETE" });
+}
+
+export function getConversationMessages(id: string) {
+  return request<StoredMessage[]>(`/api/conversations/${id}/messages`);
+}
@@ -0,0 +1,37 @@
+/** A fact the agent remembers about the user across conversations */
+export interface Memory {
+  id: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data;
+}
+
+export function listMemories() {
+  return request<Memory[]>("/api/memories");
+}
+
+export function createMemory(content: string) {
+  return request<Memory>("/api/memories", { method: "POST", body: JSON.stringify({ content }) });
+}
+
+export function updateMemory(id: string, content: string) {
+  return request<Memory>(`/api/memories/${id}`, { method: "PATCH", body: JSON.stringify({ content }) });
+}
+
+export function deleteMemory(id: string) {
+  return request<{ success: boolean }>(`/api/memories/${id}`, { method: "DELETE" });
+}
+
+export function clearMemories() {
+  return request<{ deleted: number }>("/api/memories", { method: "DELETE" });
+}
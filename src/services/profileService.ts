@@ -0,0 +1,43 @@
+/** A named agent setup; empty or null fields use the server's defaults */
+export interface AgentProfile {
+  id: string;
+  name: string;
+  system_prompt: string;
+  model: string;
+  temperature: number | null;
+  /** Tool names the agent may use, or null for all of them */
+  tools: string[] | null;
+  /** Connected apps whose tools the agent may use, or null for all of them */
+  connectors: string[] | null;
+  web_search: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProfileInput = Pick<AgentProfile, "name" | "system_prompt" | "model" | "temperature" | "tools" | "connectors" | "web_search">;
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data;
+}
+
+export function listProfiles() {
+  return request<AgentProfile[]>("/api/profiles");
+}
+
+export function createProfile(input: ProfileInput) {
+  return request<AgentProfile>("/api/profiles", { method: "POST", body: JSON.stringify(input) });
+}
+
+export function updateProfile(id: string, input: Partial<ProfileInput>) {
+  return request<AgentProfile>(`/api/profiles/${id}`, { method: "PATCH", body: JSON.stringify(input) });
+}
+
+export function deleteProfile(id: string) {
+  return request<{ success: boolean }>(`/api/profiles/${id}`, { method: "DELETE" });
+}
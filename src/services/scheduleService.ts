@@ -0,0 +1,71 @@
+export interface ScheduledTask {
+  id: string;
+  name: string;
+  prompt: string;
+  cron: string;
+  allowed_tools: string[];
+  enabled: boolean;
+  next_run_at: number | null;
+  last_run_at: number | null;
+  created_at: string;
+  upcoming: number[];
+  running: boolean;
+}
+
+export interface ScheduledRun {
+  id: string;
+  task_id: string;
+  task_name: string;
+  conversation_id: string | null;
+  trigger: "schedule" | "manual";
+  status: "running" | "success" | "error";
+  output: string | null;
+  error: string | null;
+  started_at: number;
+  finished_at: number | null;
+}
+
+export interface TaskInput {
+  name: string;
+  prompt: string;
+  cron: string;
+  allowed_tools: string[];
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data;
+}
+
+export function listScheduledTasks() {
+  return request<ScheduledTask[]>("/api/schedules");
+}
+
+export function createScheduledTask(input: TaskInput) {
+  return request<ScheduledTask>("/api/schedules", { method: "POST", body: JSON.stringify(input) });
+}
+
+export function updateScheduledTask(id: string, input: Partial<TaskInput>) {
+  return request<ScheduledTask>(`/api/schedules/${id}`, { method: "PATCH", body: JSON.stringify(input) });
+}
+
+export function deleteScheduledTask(id: string) {
+  return request<{ success: boolean }>(`/api/schedules/${id}`, { method: "DELETE" });
+}
+
+export function setScheduledTaskPaused(id: string, paused: boolean) {
+  return request<ScheduledTask>(`/api/schedules/${id}/${paused ? "pause" : "resume"}`, { method: "POST" });
+}
+
+export function runScheduledTask(id: string) {
+  return request<ScheduledRun>(`/api/schedules/${id}/run`, { method: "POST" });
+}
+
+export function listScheduledRuns(taskId?: string) {
+  return request<ScheduledRun[]>(taskId ? `/api/schedules/runs?task=${encodeURIComponent(taskId)}` : "/api/schedules/runs");
+}
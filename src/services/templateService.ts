@@ -0,0 +1,102 @@
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  body: string;
+  variables: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TemplateInput {
+  name: string;
+  description: string;
+  body: string;
+}
+
+export interface TemplatePack {
+  version: 1;
+  templates: TemplateInput[];
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data;
+}
+
+export function listTemplates() {
+  return request<PromptTemplate[]>("/api/templates");
+}
+
+export function createTemplate(input: TemplateInput) {
+  return request<PromptTemplate>("/api/templates", { method: "POST", body: JSON.stringify(input) });
+}
+
+export function updateTemplate(id: string, input: Partial<TemplateInput>) {
+  return request<PromptTemplate>(`/api/templates/${id}`, { method: "PATCH", body: JSON.stringify(input) });
+}
+
+export function deleteTemplate(id: string) {
+  return request<{ success: boolean }>(`/api/templates/${id}`, { method: "DELETE" });
+}
+
+export function importTemplates(pack: unknown, overwrite: boolean) {
+  return request<{ created: number; updated: number; skipped: number }>(
+    `/api/templates/import${overwrite ? "?overwrite=true" : ""}`,
+    { method: "POST", body: JSON.stringify(pack) }
+  );
+}
+
+/** Download link for all of the user's templates as a pack */
+export const templateExportUrl = "/api/templates/export";
+
+export interface ParsedCommand {
+  name: string;
+  named: Record<string, string>;
+  positional: string[];
+}
+
+/** Split "/issue repo=acme/app title="Crash on save"" into a command name and its arguments */
+export function parseCommand(text: string): ParsedCommand | null {
+  const match = text.trim().match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+
+  // No prototype, so arguments like "constructor=x" or "__proto__=x" are just names
+  const named: Record<string, string> = Object.create(null);
+  const positional: string[] = [];
+  const tokens = /([a-zA-Z_][\w-]*)=(?:"([^"]*)"|'([^']*)'|(\S*))|"([^"]*)"|'([^']*)'|(\S+)/g;
+  for (const token of (match[2] || "").matchAll(tokens)) {
+    if (token[1]) named[token[1]] = token[2] ?? token[3] ?? token[4] ?? "";
+    else positional.push(token[5] ?? token[6] ?? token[7]);
+  }
+  return { name: match[1].toLowerCase(), named, positional };
+}
+
+/**
+ * Fill a template's variables from a parsed command. Named arguments go to their variable; the
+ * rest fill the remaining variables in order, with the last one taking any leftover words.
+ */
+export function renderTemplate(template: PromptTemplate, command: ParsedCommand) {
+  const values: Record<string, string> = Object.assign(Object.create(null), command.named);
+  const unfilled = template.variables.filter(v => values[v] === undefined);
+  const positional = [...command.positional];
+  unfilled.forEach((variable, i) => {
+    if (!positional.length) return;
+    values[variable] = i === unfilled.length - 1 ? positional.splice(0).join(" ") : positional.shift()!;
+  });
+
+  const missing = template.variables.filter(v => !values[v]);
+  if (missing.length) return { missing };
+  const prompt = template.body.replace(/\{\{\s*([a-zA-Z_][\w-]*)\s*\}\}/g, (_, name: string) => values[name]);
+  return { prompt };
+}
+
+/** How a template is invoked, e.g. "/issue repo=… title=…" */
+export function templateUsage(template: PromptTemplate) {
+  return [`/${template.name}`, ...template.variables.map(v => `${v}=…`)].join(" ");
+}
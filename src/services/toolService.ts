@@ -0,0 +1,14 @@
+export interface ToolInfo {
+  name: string;
+  description: string;
+  provider: string | null;
+  scopes: string[];
+  mutating: boolean;
+}
+
+export async function listTools() {
+  const res = await fetch("/api/tools");
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data as ToolInfo[];
+}
@@ -0,0 +1,30 @@
+export interface UsageLimits {
+  tokensPerDay: number;
+  modelRequestsPerDay: number;
+  modelRequestsPerMinute: number;
+  toolCallsPerDay: number;
+  toolCallsPerMinute: number;
+}
+
+export interface ProviderUsage {
+  provider: string;
+  kind: "model" | "tool";
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Today's usage for the signed-in user; a limit of 0 means unlimited */
+export interface UsageSummary {
+  day: { since: number; resetsAt: number; modelRequests: number; inputTokens: number; outputTokens: number; toolCalls: number };
+  minute: { modelRequests: number; toolCalls: number };
+  limits: UsageLimits;
+  providers: ProviderUsage[];
+}
+
+export async function getUsage() {
+  const res = await fetch("/api/usage");
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data as UsageSummary;
+}